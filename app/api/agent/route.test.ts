@@ -0,0 +1,117 @@
+import type { AddressInfo } from 'net'
+import { NextRequest } from 'next/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { readServerSentEvents, type ServerSentEvent } from '@/utils/sse'
+import { createMockAgent } from '../../../scripts/mock-agent.mjs'
+
+const closeMocks: (() => void)[] = []
+
+/**
+ * Start the mock agent on a free port and load the route against it - the
+ * upstream URLs are read when `@/utils/agentUpstream` loads
+ */
+async function routeWithMock(options: { delayMs?: number; failAfter?: number } = {}, streamPath = '/v3/inference/stream/') {
+  const log: string[] = []
+  const server = createMockAgent({ delayMs: 5, ...options, log: line => log.push(line) })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  closeMocks.push(() => server.close())
+
+  const { port } = server.address() as AddressInfo
+  vi.stubEnv('LYZR_API_KEY', 'mock')
+  vi.stubEnv('LYZR_API_URL', `http://127.0.0.1:${port}/v3/inference/chat/`)
+  vi.stubEnv('LYZR_STREAM_URL', `http://127.0.0.1:${port}${streamPath}`)
+  vi.resetModules()
+  const { POST } = await import('./route')
+  return { POST, log }
+}
+
+function agentRequest(body: Record<string, unknown>, signal?: AbortSignal) {
+  return new NextRequest('http://localhost/api/agent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message: 'What is the notice period?', agent_id: 'agent-1', session_id: 's-1', ...body }),
+    signal,
+  })
+}
+
+async function eventsOf(response: Response, onEvent?: (event: ServerSentEvent) => void) {
+  const events: ServerSentEvent[] = []
+  for await (const event of readServerSentEvents(response.body!)) {
+    events.push(event)
+    onEvent?.(event)
+  }
+  return events
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out')
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+beforeEach(() => {
+  // parseAgentResponse reports every parsing strategy it tries
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  closeMocks.splice(0).forEach(close => close())
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('POST /api/agent with stream: true', () => {
+  it('streams the answer as deltas, then the parsed payload', async () => {
+    const { POST, log } = await routeWithMock()
+    const response = await POST(agentRequest({ stream: true }))
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    const events = await eventsOf(response)
+    const deltas = events.filter(event => event.event === 'delta')
+    const done = events[events.length - 1]
+
+    expect(deltas.length).toBeGreaterThan(1)
+    expect(done.event).toBe('done')
+    const payload = JSON.parse(done.data)
+    expect(payload).toMatchObject({ success: true, session_id: 's-1', agent_id: 'agent-1' })
+    expect(deltas.map(event => JSON.parse(event.data).text).join('')).toBe(payload.response.answer)
+    expect(log).toEqual([expect.stringContaining('session=s-1 turn=1')])
+  })
+
+  it('ends with an error event when the upstream connection drops', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { POST } = await routeWithMock({ failAfter: 3 })
+
+    const events = await eventsOf(await POST(agentRequest({ stream: true })))
+    const last = events[events.length - 1]
+
+    expect(events.some(event => event.event === 'done')).toBe(false)
+    expect(last.event).toBe('error')
+    expect(JSON.parse(last.data)).toMatchObject({ success: false, error: 'The answer stream was interrupted' })
+    expect(consoleError).toHaveBeenCalled()
+  })
+
+  it('returns a JSON error when the upstream refuses the request', async () => {
+    const { POST } = await routeWithMock({}, '/missing/')
+
+    const response = await POST(agentRequest({ stream: true }))
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ success: false, error: 'API returned status 404' })
+  })
+
+  it('cancels the upstream stream when the client aborts', async () => {
+    const { POST, log } = await routeWithMock({ delayMs: 50 })
+    const controller = new AbortController()
+    const response = await POST(agentRequest({ stream: true }, controller.signal))
+
+    const events = await eventsOf(response, event => {
+      if (event.event === 'delta') controller.abort()
+    })
+
+    expect(events.some(event => event.event === 'delta')).toBe(true)
+    expect(events.some(event => event.event === 'done' || event.event === 'error')).toBe(false)
+    await waitFor(() => log.some(line => line.includes('cancelled by the client')))
+  })
+})
@@ -1,15 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server'
-import parseLLMJson from '@/utils/jsonParser'
+import {
+  callAgentUpstream,
+  createAnswerExtractor,
+  isAgentConfigured,
+  openAgentStream,
+  parseAgentResponse,
+} from '@/utils/agentUpstream'
+import { verifyCitations } from '@/utils/citationCheck'
+import { parseQueryScope } from '@/utils/queryScope'
+import { buildContextMessage, searchDocuments } from '@/utils/search'
 
 /**
  * POST /api/agent
  * Secure AI agent API with BULLETPROOF multi-strategy JSON parsing
  *
+ * RETRIEVAL (optional, `retrieve: true`):
+ * - Runs local hybrid search over the uploaded documents for `message`
+ * - Sends the top passages to the agent together with the question
+ * - Returns the passages as `passages` (Citation[])
+ * - `scope: {documentIds?, collections?}` limits retrieval to those documents
+ *   (and implies `retrieve`); the agent is told to stay within them
+ *
+ * STREAMING (optional, `stream: true`):
+ * - Answers with a `text/event-stream` instead of JSON:
+ *   `event: delta` / `data: {text}` for each piece of the answer as the agent
+ *   writes it, then `event: done` / `data: {...}` with the same payload the
+ *   JSON response has (citations, confidence, follow-ups...), or
+ *   `event: error` / `data: {success: false, error, details}`
+ * - Failures before the agent starts answering are plain JSON errors
+ * - Uses the upstream streaming endpoint (LYZR_STREAM_URL)
+ *
+ * CANCELLING:
+ * - Closing the request (e.g. aborting the fetch) aborts the upstream call
+ *
+ * SESSIONS:
+ * - Send the conversation's `session_id` with every turn so the agent
+ *   remembers the earlier questions; without one, each message starts a new
+ *   session
+ *
+ * CITATION CHECK:
+ * - Every `citations[]` entry of a parsed response is checked against the
+ *   stored page text and gets `verification: {status, found_page?, match_score}`
+ *   (see `@/utils/citationCheck`)
+ *
  * SECURITY:
  * - API keys stored server-side only (never exposed to client)
  * - Environment variable based configuration
  *
- * PARSING STRATEGIES (Applied in order):
+ * PARSING STRATEGIES (Applied in order, see `@/utils/agentUpstream`):
  * 1. Preprocessing: Removes \n, \r, \t escapes and code block markers
  * 2. Direct parse: Fast JSON.parse for well-formed JSON
  * 3. Advanced parse: parseLLMJson with automatic fixes for:
@@ -38,18 +76,19 @@ import parseLLMJson from '@/utils/jsonParser'
  * ✅ {response: "stringified json"}
  * ✅ Plain text without JSON
  *
- * @returns {success, response, raw_response, agent_id, user_id, session_id, timestamp}
+ * @returns {success, response, raw_response, passages, scope, agent_id, user_id, session_id, timestamp}
+ *   (the `done` event when streaming)
  */
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+export const runtime = 'nodejs'
 
-// API key from environment variable only - NO hardcoded fallback!
-const LYZR_API_KEY = process.env.LYZR_API_KEY
+// Passages sent to the agent when `retrieve` is set
+const RETRIEVAL_LIMIT = 8
 
 export async function POST(request: NextRequest) {
   try {
     // Check API key is configured
-    if (!LYZR_API_KEY) {
+    if (!isAgentConfigured()) {
       return NextResponse.json(
         {
           success: false,
@@ -60,7 +99,8 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { message, agent_id, user_id, session_id } = body
+    const { message, agent_id, user_id, session_id, retrieve, stream } = body
+    const scope = parseQueryScope(body.scope)
 
     // Validate required fields
     if (!message || !agent_id) {
@@ -73,120 +113,114 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Call Lyzr API with server-side API key (secure!)
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify({
-        user_id: user_id || `user-${Date.now()}`,
-        agent_id,
-        session_id: session_id || `session-${Date.now()}`,
-        message,
-      }),
-    })
-
-    if (response.ok) {
-      const data = await response.json()
-
-      // BULLETPROOF JSON PARSING with multiple strategies
-      let parsedResponse = data.response
-
-      if (typeof data.response === 'string') {
-        try {
-          // STRATEGY 1: Clean up common LLM response issues
-          let cleaned = data.response
-
-          // Remove literal \n, \r, \t escape sequences (not actual newlines!)
-          cleaned = cleaned.replace(/\\n/g, '\n')
-          cleaned = cleaned.replace(/\\r/g, '\r')
-          cleaned = cleaned.replace(/\\t/g, '\t')
-
-          // Remove markdown code blocks (```json, ```, etc.)
-          cleaned = cleaned.replace(/^```(?:json|JSON)?\s*\n?/gm, '')
-          cleaned = cleaned.replace(/\n?```\s*$/gm, '')
+    // Ground the question in our own documents before asking the agent
+    const passages = retrieve || scope
+      ? await searchDocuments(message, { limit: RETRIEVAL_LIMIT, mode: 'hybrid', scope })
+      : []
+
+    const upstreamRequest = {
+      agent_id,
+      user_id,
+      session_id,
+      message: buildContextMessage(message, passages, !!scope),
+      // The client stopping the answer stops the agent too
+      signal: request.signal,
+    }
 
-          // Trim whitespace
-          cleaned = cleaned.trim()
+    const finalPayload = async (response: any, raw_response: any) => {
+      // Already through the BULLETPROOF multi-strategy JSON parsing
+      let parsedResponse = response
 
-          // STRATEGY 2: Try direct JSON.parse first (fastest)
-          try {
-            const directParse = JSON.parse(cleaned)
-            if (directParse && typeof directParse === 'object') {
-              parsedResponse = directParse
-              console.log('✅ Direct JSON.parse succeeded')
-            }
-          } catch (directError) {
-            // STRATEGY 3: Use advanced parseLLMJson for complex cases
-            console.log('⚙️ Trying advanced parseLLMJson...')
-            const parsed = parseLLMJson(cleaned, {
-              attemptFix: true,
-              maxBlocks: 5,
-              preferFirst: true,
-              allowPartial: false
-            })
-
-            if (parsed && typeof parsed === 'object') {
-              parsedResponse = parsed
-              console.log('✅ parseLLMJson succeeded')
-            } else {
-              // STRATEGY 4: Try extracting JSON from anywhere in the string
-              const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
-              if (jsonMatch) {
-                try {
-                  const extracted = JSON.parse(jsonMatch[0])
-                  if (extracted && typeof extracted === 'object') {
-                    parsedResponse = extracted
-                    console.log('✅ JSON extraction succeeded')
-                  }
-                } catch (extractError) {
-                  // STRATEGY 5: Last resort - use parseLLMJson on extracted portion
-                  const lastResort = parseLLMJson(jsonMatch[0], { attemptFix: true })
-                  if (lastResort && typeof lastResort === 'object') {
-                    parsedResponse = lastResort
-                    console.log('✅ Last resort parsing succeeded')
-                  } else {
-                    console.log('ℹ️ All parsing strategies failed, keeping original response')
-                  }
-                }
-              } else {
-                console.log('ℹ️ No JSON found in response, keeping as-is')
-              }
-            }
-          }
-        } catch (e) {
-          console.error('Error during JSON parsing:', e)
-          // Keep original response on any error
-        }
-      } else if (typeof data.response === 'object' && data.response !== null) {
-        // Already an object, use as-is
-        parsedResponse = data.response
-        console.log('✅ Response already an object')
+      // Don't show invented pages or paraphrased "quotes" as-is
+      if (parsedResponse && typeof parsedResponse === 'object' && Array.isArray(parsedResponse.citations)) {
+        parsedResponse = { ...parsedResponse, citations: await verifyCitations(parsedResponse.citations) }
       }
 
-      return NextResponse.json({
+      return {
         success: true,
         response: parsedResponse, // ✅ Bulletproof parsed response!
-        raw_response: data.response, // Keep original for debugging
+        raw_response, // Keep original for debugging
+        passages,
+        scope,
         agent_id,
         user_id,
         session_id,
         timestamp: new Date().toISOString(),
-      })
-    } else {
-      const errorText = await response.text()
+      }
+    }
+
+    // Call Lyzr API with server-side API key (secure!)
+    const result = stream ? await openAgentStream(upstreamRequest) : await callAgentUpstream(upstreamRequest)
+
+    if (!result.success) {
       return NextResponse.json(
         {
           success: false,
-          error: `API returned status ${response.status}`,
-          details: errorText,
+          error: result.error,
+          details: result.details,
         },
-        { status: response.status }
+        { status: result.status }
       )
     }
+
+    if (!('chunks' in result)) {
+      return NextResponse.json(await finalPayload(result.response, result.raw_response))
+    }
+
+    const { chunks } = result
+    const encoder = new TextEncoder()
+    const events = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          try {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+          } catch {
+            // The client went away
+          }
+        }
+
+        try {
+          const extractAnswer = createAnswerExtractor()
+          let reply = ''
+          for await (const chunk of chunks) {
+            reply += chunk
+            const text = extractAnswer(chunk)
+            if (text) send('delta', { text })
+          }
+          send('done', await finalPayload(parseAgentResponse(reply), reply))
+        } catch (error) {
+          if (request.signal.aborted) return
+          console.error('AI Agent stream error:', error)
+          send('error', {
+            success: false,
+            error: 'The answer stream was interrupted',
+            details: error instanceof Error ? error.message : String(error),
+          })
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed by a cancelled request
+          }
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined)
+      },
+    })
+
+    return new Response(events, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
   } catch (error) {
+    if (request.signal.aborted) {
+      // Nobody is waiting for the answer any more
+      return new NextResponse(null, { status: 499 })
+    }
     console.error('AI Agent API error:', error)
     return NextResponse.json(
       {
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server'
+import { beforeAll, describe, expect, it } from 'vitest'
+import { withTempStorage } from '@/test/tempStorage'
+
+const modules = withTempStorage(async () => ({
+  collections: await import('@/utils/collectionStore'),
+  route: await import('./route'),
+}))
+
+function rename(path: string, newPath: string) {
+  return modules.route.PATCH(
+    new NextRequest('http://localhost/api/collections', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ path, newPath }),
+    })
+  )
+}
+
+beforeAll(async () => {
+  await modules.collections.createCollection('Reports/2024')
+})
+
+describe('PATCH /api/collections', () => {
+  it('accepts a rename to the same name as a no-op', async () => {
+    const response = await rename('Reports', 'Reports')
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true, collections: ['Reports', 'Reports/2024'] })
+  })
+
+  it('refuses to move a collection into its own sub-collection', async () => {
+    const response = await rename('Reports', 'Reports/2024/Old')
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Cannot move Reports into itself')
+  })
+
+  it('renames a collection with its sub-collections', async () => {
+    const response = await rename('Reports', 'Archive')
+
+    expect(await response.json()).toEqual({ success: true, collections: ['Archive', 'Archive/2024'] })
+  })
+})
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isInCollection, normalizeCollectionPath } from '@/utils/collections'
+import { createCollection, deleteCollection, listCollections, renameCollection } from '@/utils/collectionStore'
+
+/**
+ * GET /api/collections
+ * Every collection path, sorted (parents before children)
+ *
+ * POST /api/collections {path}
+ * Create a collection (parents are implied)
+ *
+ * PATCH /api/collections {path, newPath}
+ * Rename or move a collection; documents and sub-collections go with it
+ *
+ * DELETE /api/collections?path=<path>
+ * Delete a collection and its sub-collections; their documents move up
+ * into the parent collection (no document is deleted)
+ *
+ * Paths are '/'-separated, e.g. `Reports/2024`, and are normalized
+ * (see `@/utils/collections`).
+ *
+ * @returns {success, collections: string[]}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET() {
+  try {
+    const collections = await listCollections()
+    return NextResponse.json({ success: true, collections })
+  } catch (error) {
+    console.error('Collection list error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const path = normalizeCollectionPath(typeof body?.path === 'string' ? body.path : '')
+    if (!path) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: path',
+        },
+        { status: 400 }
+      )
+    }
+
+    const collections = await createCollection(path)
+    return NextResponse.json({ success: true, collections }, { status: 201 })
+  } catch (error) {
+    console.error('Collection create error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const path = normalizeCollectionPath(typeof body?.path === 'string' ? body.path : '')
+    const newPath = normalizeCollectionPath(typeof body?.newPath === 'string' ? body.newPath : '')
+    if (!path) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: path',
+        },
+        { status: 400 }
+      )
+    }
+    if (!newPath) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: newPath',
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await listCollections()
+    if (!existing.includes(path)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Collection not found: ${path}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    // Saved without changing the name
+    if (newPath === path) {
+      return NextResponse.json({ success: true, collections: existing })
+    }
+
+    if (isInCollection(newPath, path)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Cannot move ${path} into itself`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const collections = await renameCollection(path, newPath)
+    return NextResponse.json({ success: true, collections })
+  } catch (error) {
+    console.error('Collection rename error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const path = normalizeCollectionPath(request.nextUrl.searchParams.get('path'))
+    if (!path) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: path',
+        },
+        { status: 400 }
+      )
+    }
+
+    const collections = await deleteCollection(path)
+    return NextResponse.json({ success: true, collections })
+  } catch (error) {
+    console.error('Collection delete error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  CONVERSATION_EXPORT_FORMATS,
+  conversationExportFileName,
+  exportConversation,
+  type ConversationExportFormat,
+} from '@/utils/conversationExport'
+import { getConversation, isValidConversationId } from '@/utils/conversationStore'
+import { listDocuments } from '@/utils/documentStore'
+
+/**
+ * GET /api/conversations/:id/export?format=markdown|json|html&download=1
+ * The conversation's questions, answers, numbered citations, confidence and
+ * timestamps as a file (see `@/utils/conversationExport`)
+ *
+ * The printable HTML page is served inline so it opens in a tab to print;
+ * Markdown, JSON (and any format with `download`) come as attachments.
+ *
+ * @returns the file, or {success: false, error} with 400 / 404
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const format = request.nextUrl.searchParams.get('format') ?? 'markdown'
+
+    if (!(format in CONVERSATION_EXPORT_FORMATS)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown export format: ${format}. Expected one of ${Object.keys(CONVERSATION_EXPORT_FORMATS).join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const conversation = isValidConversationId(id) ? await getConversation(id) : null
+
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Conversation not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const exportFormat = format as ConversationExportFormat
+    const documentNames = Object.fromEntries((await listDocuments()).map(document => [document.id, document.name]))
+    const file = exportConversation(conversation, exportFormat, { documentNames })
+    const inline = exportFormat === 'html' && !request.nextUrl.searchParams.has('download')
+    const fileName = conversationExportFileName(conversation, exportFormat)
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': CONVERSATION_EXPORT_FORMATS[exportFormat].mimeType,
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-cache',
+      },
+    })
+  } catch (error) {
+    console.error('Conversation export error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Conversation } from '@/types'
+import {
+  deleteConversation,
+  getConversation,
+  isValidConversationId,
+  saveConversationMessages,
+  updateConversation,
+} from '@/utils/conversationStore'
+import { parseQueryScope } from '@/utils/queryScope'
+
+/**
+ * GET /api/conversations/:id
+ * Load a conversation with all of its messages
+ *
+ * @returns {success, conversation}
+ *
+ * PUT /api/conversations/:id
+ * Replace the messages of a conversation
+ *
+ * REQUEST: {messages: ChatMessage[]}
+ *
+ * @returns {success, conversation}
+ *
+ * PATCH /api/conversations/:id {title?, pinned?, scope?}
+ * Rename, pin / unpin, or change the documents the conversation is limited
+ * to (an empty scope for the whole library)
+ *
+ * @returns {success, conversation}
+ *
+ * DELETE /api/conversations/:id
+ * Delete a conversation for good
+ *
+ * @returns {success}
+ */
+
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/** Longer titles are cut rather than rejected */
+const MAX_TITLE_LENGTH = 200
+
+function notFound(id: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Conversation not found: ${id}`,
+    },
+    { status: 404 }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const conversation = isValidConversationId(id) ? await getConversation(id) : null
+    if (!conversation) return notFound(id)
+
+    return NextResponse.json({ success: true, conversation })
+  } catch (error) {
+    console.error('Conversation load error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+
+    if (!body || !Array.isArray(body.messages)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: messages must be an array',
+        },
+        { status: 400 }
+      )
+    }
+
+    const conversation = isValidConversationId(id) ? await saveConversationMessages(id, body.messages) : null
+    if (!conversation) return notFound(id)
+
+    return NextResponse.json({ success: true, conversation })
+  } catch (error) {
+    console.error('Conversation save error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const changes: Partial<Pick<Conversation, 'title' | 'pinned' | 'scope'>> = {}
+
+    if (typeof body?.title === 'string' && body.title.trim()) {
+      changes.title = body.title.trim().replace(/\s+/g, ' ').slice(0, MAX_TITLE_LENGTH)
+    }
+    if (typeof body?.pinned === 'boolean') {
+      changes.pinned = body.pinned
+    }
+    if (body && 'scope' in body) {
+      changes.scope = parseQueryScope(body.scope)
+    }
+
+    if (!Object.keys(changes).length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Nothing to update: expected title, pinned and/or scope',
+        },
+        { status: 400 }
+      )
+    }
+
+    const conversation = isValidConversationId(id) ? await updateConversation(id, changes) : null
+    if (!conversation) return notFound(id)
+
+    return NextResponse.json({ success: true, conversation })
+  } catch (error) {
+    console.error('Conversation update error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const deleted = isValidConversationId(id) && (await deleteConversation(id))
+    if (!deleted) return notFound(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Conversation delete error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
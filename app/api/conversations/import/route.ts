@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseConversationExport } from '@/utils/conversationExport'
+import { importConversation } from '@/utils/conversationStore'
+
+/**
+ * POST /api/conversations/import
+ * Store a conversation exported as JSON (`GET /api/conversations/:id/export?format=json`)
+ * as a new conversation. It gets a new id and a new agent session.
+ *
+ * REQUEST: the export file's JSON
+ *
+ * @returns {success, conversation}
+ */
+
+export const runtime = 'nodejs'
+
+export async function POST(request: NextRequest) {
+  try {
+    const exported = parseConversationExport(await request.json().catch(() => null))
+
+    if (!exported) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Not a conversation export: expected the JSON file of an exported conversation',
+        },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await importConversation(exported)
+    return NextResponse.json({ success: true, conversation }, { status: 201 })
+  } catch (error) {
+    console.error('Conversation import error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createConversation, listConversations } from '@/utils/conversationStore'
+import { parseQueryScope } from '@/utils/queryScope'
+
+/**
+ * GET /api/conversations
+ * Every stored conversation, most recently updated first
+ *
+ * @returns {success, conversations}
+ *
+ * POST /api/conversations {scope?}
+ * Start a new, empty conversation, optionally limited to some documents
+ *
+ * @returns {success, conversation}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET() {
+  try {
+    const conversations = await listConversations()
+    return NextResponse.json({ success: true, conversations })
+  } catch (error) {
+    console.error('Conversation list error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const conversation = await createConversation(parseQueryScope(body?.scope))
+    return NextResponse.json({ success: true, conversation }, { status: 201 })
+  } catch (error) {
+    console.error('Conversation create error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getDocument, isValidDocumentId, readDocumentSource } from '@/utils/documentStore'
+import { DOCUMENT_FORMATS } from '@/utils/documentFormats'
+
+/**
+ * GET /api/documents/:id/file?download=1
+ * The original uploaded file of the current version
+ *
+ * PDFs are served inline so the in-app viewer can render them; every other
+ * format (and any file with `download`) is served as an attachment, so an
+ * uploaded HTML file never runs in the app's origin.
+ *
+ * @returns the file bytes, or {success: false, error} with 404
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const document = isValidDocumentId(id) ? await getDocument(id) : null
+
+    if (!document) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Document not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const format = document.format ?? 'pdf'
+    const data = await readDocumentSource(document)
+    const inline = format === 'pdf' && !request.nextUrl.searchParams.has('download')
+
+    return new NextResponse(data as BodyInit, {
+      headers: {
+        'Content-Type': DOCUMENT_FORMATS[format].mimeTypes[0],
+        'Content-Length': String(data.byteLength),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(document.name)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-cache',
+      },
+    })
+  } catch (error) {
+    console.error('Document file error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Document } from '@/types'
+import { normalizeCollectionPath, normalizeTags } from '@/utils/collections'
+import { getDocument, getDocumentChunks, getDocumentPages, isValidDocumentId, updateDocument } from '@/utils/documentStore'
+import { trashDocument } from '@/utils/trashStore'
+
+/**
+ * GET /api/documents/:id?include=pages,chunks
+ * Load a stored document record, optionally with its extracted page text
+ * and retrieval chunks
+ *
+ * @returns {success, document, pages?, chunks?}
+ *
+ * PATCH /api/documents/:id {collectionPath?, tags?}
+ * Move a document to another collection ('' for none) and/or replace its tags
+ *
+ * @returns {success, document}
+ *
+ * DELETE /api/documents/:id
+ * Move a document - file, page text, chunks, versions - to the trash. It
+ * drops out of the library and search at once, can be restored with
+ * `POST /api/trash/:id/restore` until `expiresAt`, and is then deleted for good.
+ *
+ * @returns {success, document} the trashed document, with deletedAt / expiresAt
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const document = isValidDocumentId(id) ? await getDocument(id) : null
+
+    if (!document) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Document not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const include = (request.nextUrl.searchParams.get('include') ?? '').split(',')
+
+    return NextResponse.json({
+      success: true,
+      document,
+      ...(include.includes('pages') && { pages: await getDocumentPages(id) }),
+      ...(include.includes('chunks') && { chunks: await getDocumentChunks(id) }),
+    })
+  } catch (error) {
+    console.error('Document load error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const changes: Partial<Pick<Document, 'collectionPath' | 'tags'>> = {}
+
+    if (typeof body?.collectionPath === 'string') {
+      changes.collectionPath = normalizeCollectionPath(body.collectionPath)
+    }
+    if (Array.isArray(body?.tags)) {
+      changes.tags = normalizeTags(body.tags)
+    }
+
+    if (!Object.keys(changes).length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Nothing to update: expected collectionPath and/or tags',
+        },
+        { status: 400 }
+      )
+    }
+
+    const document = isValidDocumentId(id) ? await updateDocument(id, changes) : null
+
+    if (!document) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Document not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, document })
+  } catch (error) {
+    console.error('Document update error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const document = isValidDocumentId(id) ? await trashDocument(id) : null
+
+    if (!document) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Document not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, document })
+  } catch (error) {
+    console.error('Document delete error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { canRestoreVersion, isValidDocumentId, listDocumentVersions, restoreDocumentVersion } from '@/utils/documentStore'
+import { checkQuota } from '@/utils/quotas'
+
+/**
+ * POST /api/documents/:id/versions/:version/restore
+ * Roll a document back to an earlier version
+ *
+ * The rollback is recorded as a new version (with `restoredFrom`), so the
+ * version being replaced stays in the history. Refused with 413 / 507 and a
+ * quota `code` when the restored file would break a workspace quota, and
+ * with 422 when the version's file is no longer stored.
+ *
+ * @returns {success, document} the new current version
+ */
+
+export const runtime = 'nodejs'
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params
+    const versionNumber = Number(version)
+
+    const versions = isValidDocumentId(id) && Number.isInteger(versionNumber) ? await listDocumentVersions(id) : []
+    const target = versions.slice(1).find(snapshot => snapshot.version === versionNumber)
+
+    if (target && !(await canRestoreVersion(id, target))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Version ${version} of ${target.name} cannot be restored: its file is missing`,
+        },
+        { status: 422 }
+      )
+    }
+
+    if (target) {
+      const overQuota = await checkQuota(target.name, { size: target.size, pages: target.pages, replaces: versions[0] })
+      if (overQuota) {
+        const { status, ...body } = overQuota
+        return NextResponse.json({ success: false, ...body }, { status })
+      }
+    }
+
+    const document = target ? await restoreDocumentVersion(id, versionNumber) : null
+
+    if (!document) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No earlier version ${version} of document ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, document })
+  } catch (error) {
+    console.error('Document restore error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidDocumentId, listDocumentVersions } from '@/utils/documentStore'
+
+/**
+ * GET /api/documents/:id/versions
+ * Version history of a document, newest first (the current version included)
+ *
+ * @returns {success, versions: DocumentVersion[]}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const versions = isValidDocumentId(id) ? await listDocumentVersions(id) : []
+
+    if (!versions.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Document not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, versions })
+  } catch (error) {
+    console.error('Document versions error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findDocumentByName, listDocuments } from '@/utils/documentStore'
+import { countDocumentCitations } from '@/utils/conversationStore'
+import { matchesDocumentFilter, parseDocumentFilter, parseDocumentSort, sortDocuments } from '@/utils/documentFilter'
+import { enqueueIngestJob } from '@/utils/ingestQueue'
+import { checkQuota } from '@/utils/quotas'
+
+/**
+ * GET /api/documents?q=&author=&keyword=&tag=&format=&collection=&createdFrom=&createdTo=&uploadedFrom=&uploadedTo=&sort=&order=
+ * Stored documents, newest upload first. All filters are optional:
+ * - q: words to find in the name, tags, title, author, subject, keywords or bookmarks
+ * - author / keyword / tag: exact (case-insensitive) embedded author, keyword or tag
+ * - format: file type (pdf, docx, markdown, text, html, epub)
+ * - collection: collection path, sub-collections included
+ * - createdFrom / createdTo: embedded creation date range, YYYY-MM-DD
+ * - uploadedFrom / uploadedTo: upload date range, YYYY-MM-DD (days in the server's time zone)
+ * - sort: name | uploaded | size | pages | cited, with order asc | desc
+ *
+ * `citationCounts` is how many answers across all conversations cited each
+ * document, by id (the `cited` sort).
+ *
+ * @returns {success, documents, citationCounts}
+ *
+ * POST /api/documents
+ * Queue a document uploaded as multipart/form-data in a single request for
+ * ingestion (large files should use the resumable `/api/uploads` protocol instead)
+ *
+ * REQUEST:
+ * - `file`: a PDF, DOCX, Markdown, plain text, HTML or EPUB file
+ * - `collectionPath` (optional): folder the file came from, e.g. `Reports/2024`
+ *
+ * Ingestion runs in the background (see `@/utils/ingestQueue`); follow the
+ * returned job through `/api/jobs/:id` or `/api/jobs/events`. See
+ * `@/utils/ingest` for the pipeline: format check, SHA-256 deduplication /
+ * versioning, quotas, text extraction (with OCR), chunking, storage.
+ *
+ * A file over a workspace quota is refused up front with 413 (file size) or
+ * 507 (library full) and `{success: false, error, code, limit}`, see
+ * `@/utils/quotas`; the page limit is checked by the job once the file is read.
+ *
+ * @returns 202 {success, job}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl
+    const filter = parseDocumentFilter(searchParams)
+    const [documents, citationCounts] = await Promise.all([listDocuments(), countDocumentCitations()])
+    const matches = documents.filter(document => matchesDocumentFilter(document, filter))
+    return NextResponse.json({
+      success: true,
+      documents: sortDocuments(matches, parseDocumentSort(searchParams), citationCounts),
+      citationCounts,
+    })
+  } catch (error) {
+    console.error('Document list error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Expected a multipart/form-data body',
+        },
+        { status: 400 }
+      )
+    }
+
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required field: file',
+        },
+        { status: 400 }
+      )
+    }
+
+    const overQuota = await checkQuota(file.name, { size: file.size, replaces: await findDocumentByName(file.name) })
+    if (overQuota) {
+      const { status, ...body } = overQuota
+      return NextResponse.json({ success: false, ...body }, { status })
+    }
+
+    const collectionPath = formData.get('collectionPath')
+    const data = new Uint8Array(await file.arrayBuffer())
+    const job = await enqueueIngestJob(file.name, file.type, data, {
+      collectionPath: typeof collectionPath === 'string' ? collectionPath : undefined,
+    })
+
+    return NextResponse.json({ success: true, job }, { status: 202 })
+  } catch (error) {
+    console.error('Document upload error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJob, isValidJobId, retryJob } from '@/utils/ingestQueue'
+
+/**
+ * POST /api/jobs/:id/retry
+ * Queue a failed ingestion job again, from the bytes it kept
+ *
+ * Refused with 409 for jobs that have not failed.
+ *
+ * @returns {success, job} the queued job
+ */
+
+export const runtime = 'nodejs'
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = isValidJobId(id) ? await getJob(id) : null
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const queued = await retryJob(id)
+
+    if (!queued) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Only failed jobs can be retried; ${job.name} is ${job.state}`,
+          job,
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true, job: queued })
+  } catch (error) {
+    console.error('Job retry error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
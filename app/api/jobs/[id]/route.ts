@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteJob, getJob, isValidJobId } from '@/utils/ingestQueue'
+
+/**
+ * GET /api/jobs/:id
+ * Status of one ingestion job: its state (queued, extracting, ocr, indexing,
+ * done, failed), OCR page progress, and the document or error once finished
+ *
+ * @returns {success, job}
+ *
+ * DELETE /api/jobs/:id
+ * Dismiss a finished or failed job, or cancel one still waiting in the
+ * queue. A job that is being processed cannot be removed (409).
+ *
+ * @returns {success}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = isValidJobId(id) ? await getJob(id) : null
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    console.error('Job load error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const job = isValidJobId(id) ? await getJob(id) : null
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    if (!(await deleteJob(id))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${job.name} is being processed and cannot be removed`,
+          job,
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Job delete error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server'
+import type { IngestJob } from '@/types'
+import { subscribeToJobs } from '@/utils/ingestQueue'
+
+/**
+ * GET /api/jobs/events
+ * Server-sent events stream of ingestion job changes:
+ *
+ * ```
+ * event: job
+ * data: {IngestJob}
+ * ```
+ *
+ * One event per state change of any job. Only changes are sent: clients
+ * load the current jobs with GET /api/jobs when the stream (re)connects.
+ * A comment line is sent every KEEP_ALIVE_MS to keep proxies from closing it.
+ */
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const KEEP_ALIVE_MS = 15000
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeToJobs((job: IngestJob) => send(`event: job\ndata: ${JSON.stringify(job)}\n\n`))
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), KEEP_ALIVE_MS)
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(keepAlive)
+      }
+      request.signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      })
+
+      // Reconnect quickly after a dropped connection
+      send('retry: 3000\n\n')
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
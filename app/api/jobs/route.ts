@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { listJobs } from '@/utils/ingestQueue'
+
+/**
+ * GET /api/jobs
+ * Background ingestion jobs that are still around - waiting, running,
+ * failed or recently done - oldest first. Live updates: `/api/jobs/events`.
+ *
+ * @returns {success, jobs}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET() {
+  try {
+    const jobs = await listJobs()
+    return NextResponse.json({ success: true, jobs })
+  } catch (error) {
+    console.error('Job list error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
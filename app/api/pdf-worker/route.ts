@@ -0,0 +1,38 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { NextResponse } from 'next/server'
+
+/**
+ * GET /api/pdf-worker
+ * The pdfjs worker script for the in-app document viewer, served straight
+ * from node_modules so it always matches the installed pdfjs-dist version
+ * (pdfjs-dist is not bundled, see `serverExternalPackages`)
+ *
+ * @returns the worker as JavaScript
+ */
+
+export const runtime = 'nodejs'
+
+const WORKER_FILE = path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'build', 'pdf.worker.min.mjs')
+
+export async function GET() {
+  try {
+    const script = await fs.readFile(WORKER_FILE)
+    return new NextResponse(script as BodyInit, {
+      headers: {
+        'Content-Type': 'text/javascript; charset=utf-8',
+        'Cache-Control': 'public, max-age=86400',
+      },
+    })
+  } catch (error) {
+    console.error('PDF worker error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
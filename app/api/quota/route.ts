@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { WORKSPACE_LIMITS, getWorkspaceUsage } from '@/utils/quotas'
+
+/**
+ * GET /api/quota
+ * The workspace limits (null = unlimited, sizes in bytes) and how much of
+ * them is used, see `@/utils/quotas`
+ *
+ * @returns {success, limits, usage}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET() {
+  try {
+    const usage = await getWorkspaceUsage()
+    return NextResponse.json({ success: true, limits: WORKSPACE_LIMITS, usage })
+  } catch (error) {
+    console.error('Quota error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseQueryScope } from '@/utils/queryScope'
+import { searchDocuments, type SearchMode } from '@/utils/search'
+
+/**
+ * GET /api/search?q=<query>&limit=<n>&mode=<lexical|hybrid>&document=<id>&collection=<path>
+ * Local full-text search over every ingested page chunk
+ *
+ * SCOPE (optional, repeatable): `document` and `collection` limit the search
+ * to those documents and collections (sub-collections included)
+ *
+ * MODES:
+ * - lexical (default): BM25 only
+ * - hybrid: BM25 + hashed TF-IDF vectors, fused and re-ranked locally
+ *
+ * Runs entirely on this server - no LLM and no network access involved.
+ *
+ * @returns {success, query, results: Citation[]} ranked best first
+ */
+
+export const runtime = 'nodejs'
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 50
+const MODES: SearchMode[] = ['lexical', 'hybrid']
+
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get('q')?.trim()
+
+    if (!query) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required query parameter: q',
+        },
+        { status: 400 }
+      )
+    }
+
+    const requestedLimit = Number(request.nextUrl.searchParams.get('limit') ?? DEFAULT_LIMIT)
+    const limit = Number.isFinite(requestedLimit)
+      ? Math.min(Math.max(1, Math.floor(requestedLimit)), MAX_LIMIT)
+      : DEFAULT_LIMIT
+
+    const mode = (request.nextUrl.searchParams.get('mode') ?? 'lexical') as SearchMode
+    if (!MODES.includes(mode)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid mode: ${mode}. Expected one of ${MODES.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const scope = parseQueryScope({
+      documentIds: request.nextUrl.searchParams.getAll('document'),
+      collections: request.nextUrl.searchParams.getAll('collection'),
+    })
+
+    const results = await searchDocuments(query, { limit, mode, scope })
+
+    return NextResponse.json({
+      success: true,
+      query,
+      mode,
+      results,
+    })
+  } catch (error) {
+    console.error('Document search error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findDocumentByHash, isValidDocumentId } from '@/utils/documentStore'
+import { checkQuota } from '@/utils/quotas'
+import { getTrashedDocument, restoreFromTrash } from '@/utils/trashStore'
+
+/**
+ * POST /api/trash/:id/restore
+ * Move a deleted document back into the library
+ *
+ * Refused with 409 when the same file has been uploaded again since, so the
+ * library never holds two copies of it, and with 413 / 507 and a quota `code`
+ * when the library has no room for it. A document whose name has been
+ * taken by a new upload comes back renamed ("report (restored).pdf").
+ *
+ * @returns {success, document} or {success: false, error, document?, code?}
+ *   (`document` on a 409 is the copy already in the library)
+ */
+
+export const runtime = 'nodejs'
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const trashed = isValidDocumentId(id) ? await getTrashedDocument(id) : null
+
+    if (!trashed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Not in the trash: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const existing = trashed.contentHash ? await findDocumentByHash(trashed.contentHash) : null
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${trashed.name} is already in the library as ${existing.name}`,
+          document: existing,
+        },
+        { status: 409 }
+      )
+    }
+
+    const overQuota = await checkQuota(trashed.name, { size: trashed.size, pages: trashed.pages })
+    if (overQuota) {
+      const { status, ...body } = overQuota
+      return NextResponse.json({ success: false, ...body }, { status })
+    }
+
+    const document = await restoreFromTrash(id)
+    return NextResponse.json({ success: true, document })
+  } catch (error) {
+    console.error('Trash restore error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
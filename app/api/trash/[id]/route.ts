@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isValidDocumentId } from '@/utils/documentStore'
+import { deleteFromTrash } from '@/utils/trashStore'
+
+/**
+ * DELETE /api/trash/:id
+ * Delete a trashed document for good, without waiting for it to expire
+ *
+ * @returns {success}
+ */
+
+export const runtime = 'nodejs'
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const deleted = isValidDocumentId(id) && (await deleteFromTrash(id))
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Not in the trash: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Trash delete error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
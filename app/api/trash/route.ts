@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { TRASH_RETENTION_DAYS, emptyTrash, listTrash } from '@/utils/trashStore'
+
+/**
+ * GET /api/trash
+ * Deleted documents waiting to be purged, most recently deleted first
+ *
+ * @returns {success, documents, retentionDays}
+ *
+ * DELETE /api/trash
+ * Empty the trash, deleting everything in it for good
+ *
+ * @returns {success}
+ */
+
+export const runtime = 'nodejs'
+
+export async function GET() {
+  try {
+    const documents = await listTrash()
+    return NextResponse.json({ success: true, documents, retentionDays: TRASH_RETENTION_DAYS })
+  } catch (error) {
+    console.error('Trash list error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  try {
+    await emptyTrash()
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Trash empty error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enqueueIngestFile } from '@/utils/ingestQueue'
+import { deleteUpload, getUpload, isValidUploadId, uploadDataFile } from '@/utils/uploadStore'
+
+/**
+ * POST /api/uploads/:id/complete
+ * Finish a chunked upload: queue the reassembled file for ingestion
+ *
+ * Fails with 409 (and the current `upload`) while bytes are still missing.
+ * The upload's file is moved to the job (not read into memory), and the
+ * upload session is discarded.
+ *
+ * @returns 202 {success, job} - same shape as POST /api/documents
+ */
+
+export const runtime = 'nodejs'
+
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const upload = isValidUploadId(id) ? await getUpload(id) : null
+
+    if (!upload) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Upload not found: ${id}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    if (upload.received !== upload.size) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Upload incomplete: ${upload.received} of ${upload.size} bytes received`,
+          upload,
+        },
+        { status: 409 }
+      )
+    }
+
+    const job = await enqueueIngestFile(upload.name, upload.mimeType, uploadDataFile(id), {
+      collectionPath: upload.collectionPath,
+    })
+    await deleteUpload(id)
+
+    return NextResponse.json({ success: true, job }, { status: 202 })
+  } catch (error) {
+    console.error('Upload complete error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
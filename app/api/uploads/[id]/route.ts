@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { UPLOAD_CHUNK_SIZE, appendUploadChunk, deleteUpload, getUpload, isValidUploadId } from '@/utils/uploadStore'
+
+/**
+ * GET /api/uploads/:id
+ * Status of a chunked upload - `received` is where to resume from
+ *
+ * @returns {success, upload, chunkSize}
+ *
+ * PATCH /api/uploads/:id
+ * Append the next chunk (raw bytes). The `Upload-Offset` header must equal
+ * the bytes received so far; otherwise 409 with the current `received`.
+ *
+ * DELETE /api/uploads/:id
+ * Cancel the upload and discard what was received
+ *
+ * @returns {success, upload}
+ */
+
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function notFound(id: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Upload not found: ${id}`,
+    },
+    { status: 404 }
+  )
+}
+
+function serverError(error: unknown) {
+  console.error('Upload error:', error)
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : String(error),
+    },
+    { status: 500 }
+  )
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const upload = isValidUploadId(id) ? await getUpload(id) : null
+    if (!upload) return notFound(id)
+
+    return NextResponse.json({ success: true, upload, chunkSize: UPLOAD_CHUNK_SIZE })
+  } catch (error) {
+    return serverError(error)
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const offset = Number(request.headers.get('upload-offset'))
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required header: Upload-Offset',
+        },
+        { status: 400 }
+      )
+    }
+
+    const chunk = new Uint8Array(await request.arrayBuffer())
+    const result = isValidUploadId(id) ? await appendUploadChunk(id, offset, chunk) : null
+    if (!result) return notFound(id)
+
+    if (!result.accepted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Offset ${offset} does not match the ${result.upload.received} bytes received`,
+          upload: result.upload,
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true, upload: result.upload })
+  } catch (error) {
+    return serverError(error)
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const upload = isValidUploadId(id) ? await getUpload(id) : null
+    if (!upload) return notFound(id)
+
+    await deleteUpload(id)
+    return NextResponse.json({ success: true, upload })
+  } catch (error) {
+    return serverError(error)
+  }
+}
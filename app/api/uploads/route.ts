@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { normalizeCollectionPath } from '@/utils/collections'
+import { detectDocumentFormat } from '@/utils/documentFormats'
+import { findDocumentByName } from '@/utils/documentStore'
+import { checkQuota } from '@/utils/quotas'
+import { UPLOAD_CHUNK_SIZE, createUpload } from '@/utils/uploadStore'
+
+/**
+ * POST /api/uploads
+ * Start a resumable chunked upload
+ *
+ * PROTOCOL:
+ * 1. POST /api/uploads {name, type, size,
+ *    collectionPath?}                              -> {upload: {id, received: 0, ...}, chunkSize}
+ * 2. PATCH /api/uploads/:id with raw bytes and an
+ *    `Upload-Offset` header equal to `received`     -> {upload: {received}}
+ *    (repeat; a 409 carries the server's `received` to resume from)
+ * 3. GET /api/uploads/:id                          -> {upload: {received}, chunkSize} to resume
+ * 4. POST /api/uploads/:id/complete                -> {document} (runs ingestion)
+ * DELETE /api/uploads/:id cancels and discards the bytes.
+ *
+ * A file over a workspace quota is refused before any bytes are sent, with
+ * 413 / 507 and `{success: false, error, code, limit}` (see `@/utils/quotas`).
+ *
+ * @returns {success, upload, chunkSize}
+ */
+
+export const runtime = 'nodejs'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const name = typeof body?.name === 'string' ? body.name : ''
+    const size = Number(body?.size)
+    const mimeType = typeof body?.type === 'string' ? body.type : ''
+    const collectionPath = normalizeCollectionPath(typeof body?.collectionPath === 'string' ? body.collectionPath : '')
+
+    if (!name || !Number.isInteger(size) || size <= 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Missing required fields: name and a positive integer size are required',
+        },
+        { status: 400 }
+      )
+    }
+
+    // Fail fast instead of after the whole file has been sent
+    if (!detectDocumentFormat(name, mimeType)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${name} is not a supported file type`,
+        },
+        { status: 415 }
+      )
+    }
+
+    const overQuota = await checkQuota(name, { size, replaces: await findDocumentByName(name) })
+    if (overQuota) {
+      const { status, ...body } = overQuota
+      return NextResponse.json({ success: false, ...body }, { status })
+    }
+
+    const upload = await createUpload(name, mimeType, size, collectionPath)
+    return NextResponse.json({ success: true, upload, chunkSize: UPLOAD_CHUNK_SIZE }, { status: 201 })
+  } catch (error) {
+    console.error('Upload create error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -7,45 +7,161 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogTitle } from '@/components/ui/alert-dialog'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { SidebarMenu, SidebarMenuItem, SidebarMenuSub, SidebarMenuSubItem } from '@/components/ui/sidebar'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { Send, Upload, Trash2, FileText, X, Download } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Calendar } from '@/components/ui/calendar'
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable'
+import { DocumentViewer } from '@/components/DocumentViewer'
+import { ConversationList, UNTITLED_CONVERSATION } from '@/components/ConversationList'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { toast } from 'sonner'
+import { format as formatDay, parseISO } from 'date-fns'
+import { Send, Upload, Trash2, FileText, X, Download, ScanText, AlertTriangle, History, FolderUp, Info, Search, Folder, FolderPlus, ChevronRight, MoreHorizontal, Library, Tag, CheckCircle2, HelpCircle, SlidersHorizontal, ArrowDownWideNarrow, ArrowUpNarrowWide, MessagesSquare, Plus, Square, RotateCcw, RefreshCw, ChevronLeft } from 'lucide-react'
+import type { AnswerVersion, ChatMessage, Citation, CitationStatus, Conversation, Document, DocumentFormat, DocumentVersion, IngestJob, IngestJobState, OutlineItem, QueryScope, SearchResponse, TrashedDocument, WorkspaceLimits } from '@/types'
+import { ACCEPTED_FILE_TYPES, DOCUMENT_FORMATS, detectDocumentFormat } from '@/utils/documentFormats'
+import { uploadDocument, type UploadProgress } from '@/utils/documentUpload'
+import { formatBytes, formatDuration } from '@/utils'
+import { readDroppedFiles, readInputFiles, type CollectedFile } from '@/utils/fileDrop'
+import {
+  DEFAULT_DOCUMENT_SORT,
+  citedDocumentIds,
+  defaultSortOrder,
+  documentAuthors,
+  documentFilterParams,
+  matchesDocumentFilter,
+  parseDocumentFilter,
+  parseDocumentSort,
+  sortDocuments,
+  type CitationCounts,
+  type DocumentFilter,
+  type DocumentSort,
+  type DocumentSortKey,
+} from '@/utils/documentFilter'
+import { documentsInScope, isScopeEmpty } from '@/utils/queryScope'
+import { deleteDocument, fetchDocuments, fetchDocumentVersions, restoreDocumentVersion, updateDocument } from '@/utils/documentsApi'
+import { deleteFromTrash, emptyTrash, fetchTrash, restoreFromTrash } from '@/utils/trashApi'
+import { dismissJob, fetchJobs, retryJob, subscribeToJobs } from '@/utils/jobsApi'
+import { fetchQuota } from '@/utils/quotaApi'
+import { streamAIAgent } from '@/utils/aiAgent'
+import { createCollection, deleteCollection, fetchCollections, renameCollection } from '@/utils/collectionsApi'
+import {
+  buildCollectionTree,
+  findCollection,
+  isInCollection,
+  parentCollectionPath,
+  type CollectionNode,
+} from '@/utils/collections'
+import { createConversation, deleteConversation, fetchConversations, importConversation, saveConversationMessages, updateConversation } from '@/utils/conversationsApi'
 
-interface Document {
-  id: string
+interface UploadingFile {
   name: string
-  size: number
-  pages: number
-  uploadDate: string
-  uploadProgress?: number
+  /** null while waiting for earlier files in the batch */
+  progress: UploadProgress | null
+}
+
+/** A file waiting in the pre-upload review list */
+interface PendingFile extends CollectedFile {
+  id: string
+}
+
+type DropZone = 'sidebar' | 'chat'
+
+const AGENT_ID = '6909a9b15d0b2c2413178b1e'
+
+/** drag-and-drop type for moving document cards between collections */
+const DOCUMENT_DRAG_TYPE = 'application/x-document-id'
+
+const CITATION_STATUS_STYLES: Record<CitationStatus, { chip: string; title: string }> = {
+  verified: { chip: 'border-green-300', title: 'Excerpt found on the cited page' },
+  other_page: { chip: 'border-amber-300 bg-amber-50', title: 'Excerpt found on a different page than cited' },
+  unverifiable: { chip: 'border-red-200 bg-red-50', title: 'Excerpt not found in the document' },
+}
+
+const JOB_STATE_LABELS: Record<IngestJobState, string> = {
+  queued: 'Waiting to be processed',
+  extracting: 'Extracting text',
+  ocr: 'Running OCR',
+  summarizing: 'Summarizing',
+  indexing: 'Indexing',
+  done: 'Done',
+  failed: 'Failed',
+}
+
+/** Add or replace a job, ignoring updates older than what we have */
+function upsertJob(jobs: IngestJob[], job: IngestJob): IngestJob[] {
+  const current = jobs.find(item => item.id === job.id)
+  if (!current) return [...jobs, job]
+  if (current.updatedAt > job.updatedAt) return jobs
+  return jobs.map(item => (item.id === job.id ? job : item))
 }
 
-interface Citation {
-  document_name?: string
-  page_number?: number
-  excerpt?: string
-  relevance_score?: number
+const FILTER_LABELS: Partial<Record<keyof DocumentFilter, string>> = {
+  author: 'Author',
+  keyword: 'Keyword',
+  tag: 'Tag',
+  format: 'Type',
+  collection: 'Collection',
 }
 
-interface SearchResponse {
-  answer?: string
-  citations?: Citation[]
-  documents_referenced?: string[]
-  confidence?: number
-  follow_up_suggestions?: string[]
-  metadata?: {
-    search_queries_used?: string[]
-    total_passages_retrieved?: number
-    processing_time?: string
+const SORT_LABELS: Record<DocumentSortKey, string> = {
+  name: 'Name',
+  uploaded: 'Upload date',
+  size: 'Size',
+  pages: 'Pages',
+  cited: 'Most cited',
+}
+
+/** Select items cannot have an empty value */
+const ANY_FACET = 'any'
+
+/** Calendar days to and from the `YYYY-MM-DD` filter values */
+const toDayParam = (date: Date) => formatDay(date, 'yyyy-MM-dd')
+const fromDayParam = (day?: string) => (day ? parseISO(day) : undefined)
+
+/** Compares scopes regardless of how "nothing selected" is written */
+function scopeKey(scope?: QueryScope): string {
+  return isScopeEmpty(scope) ? '' : JSON.stringify([scope?.documentIds ?? [], scope?.collections ?? []])
+}
+
+/** The answer an agent message shows, to keep as a version */
+function answerVersion(message: ChatMessage): AnswerVersion {
+  return {
+    content: message.content,
+    ...(message.response && { response: message.response }),
+    ...(message.status && { status: message.status }),
+    ...(message.error && { error: message.error }),
+    timestamp: message.timestamp,
   }
 }
 
-interface ChatMessage {
-  id: string
-  type: 'user' | 'agent'
-  content: string
-  response?: SearchResponse
-  timestamp: string
+function collectionPaths(node: CollectionNode): string[] {
+  return node.children.flatMap(child => [child.path, ...collectionPaths(child)])
+}
+
+function OutlineTree({ items }: { items: OutlineItem[] }) {
+  return (
+    <ul className="space-y-1">
+      {items.map((item, idx) => (
+        <li key={idx}>
+          <div className="flex items-baseline justify-between gap-3 text-sm">
+            <span className="text-gray-800 truncate">{item.title}</span>
+            {item.pageNumber && <span className="text-xs text-gray-500 flex-shrink-0">p.{item.pageNumber}</span>}
+          </div>
+          {item.children.length > 0 && (
+            <div className="pl-4 mt-1 border-l border-gray-200">
+              <OutlineTree items={item.children} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
 }
 
 export default function HomePage() {
@@ -54,11 +170,46 @@ export default function HomePage() {
   const [query, setQuery] = useState('')
   const [loading, setLoading] = useState(false)
   const [sidebarOpen, setSidebarOpen] = useState(true)
-  const [uploadingFiles, setUploadingFiles] = useState<{ [key: string]: number }>({})
+  const [uploadingFiles, setUploadingFiles] = useState<{ [key: string]: UploadingFile }>({})
+  const [jobs, setJobs] = useState<IngestJob[]>([])
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([])
+  const [dragZone, setDragZone] = useState<DropZone | null>(null)
   const [selectedCitation, setSelectedCitation] = useState<Citation | null>(null)
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+  const [historyDoc, setHistoryDoc] = useState<Document | null>(null)
+  const [trashOpen, setTrashOpen] = useState(false)
+  const [trashDocuments, setTrashDocuments] = useState<TrashedDocument[] | null>(null)
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [detailsDoc, setDetailsDoc] = useState<Document | null>(null)
+  const [libraryFilter, setLibraryFilter] = useState<DocumentFilter>({})
+  const [librarySort, setLibrarySort] = useState<DocumentSort>(DEFAULT_DOCUMENT_SORT)
+  const [libraryViewLoaded, setLibraryViewLoaded] = useState(false)
+  const [citationCounts, setCitationCounts] = useState<CitationCounts>({})
+  const [limits, setLimits] = useState<WorkspaceLimits | null>(null)
+  const [collections, setCollections] = useState<string[]>([])
+  const [selectedCollection, setSelectedCollection] = useState('')
+  const [collapsedCollections, setCollapsedCollections] = useState<Set<string>>(new Set())
+  const [dragOverCollection, setDragOverCollection] = useState<string | null>(null)
+  const [collectionDialog, setCollectionDialog] = useState<{ mode: 'create' | 'rename'; path: string } | null>(null)
+  const [collectionNameInput, setCollectionNameInput] = useState('')
+  const [deleteCollectionConfirm, setDeleteCollectionConfirm] = useState<string | null>(null)
+  const [tagInput, setTagInput] = useState('')
+  const [scope, setScope] = useState<Required<QueryScope>>({ documentIds: [], collections: [] })
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [conversationsOpen, setConversationsOpen] = useState(false)
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [answeringId, setAnsweringId] = useState<string | null>(null)
+  const [restored, setRestored] = useState(false)
   const chatEndRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+  const savedMessagesRef = useRef<ChatMessage[]>([])
+  const savedScopeRef = useRef('')
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const uploadControllersRef = useRef<{ [key: string]: AbortController }>({})
+  const finishedJobsRef = useRef<Set<string>>(new Set())
 
   const scrollToBottom = () => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -68,85 +219,607 @@ export default function HomePage() {
     scrollToBottom()
   }, [chatMessages])
 
-  const handleFileSelect = async (files: FileList) => {
-    const selectedFiles = Array.from(files).filter(file => file.type === 'application/pdf')
-
-    for (const file of selectedFiles) {
-      const fileId = `${file.name}-${Date.now()}`
-      setUploadingFiles(prev => ({ ...prev, [fileId]: 0 }))
-
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadingFiles(prev => {
-          const current = prev[fileId] || 0
-          if (current >= 90) {
-            clearInterval(progressInterval)
-            return prev
-          }
-          return { ...prev, [fileId]: current + Math.random() * 40 }
-        })
-      }, 500)
-
-      // Simulate document processing
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      clearInterval(progressInterval)
-
-      const newDoc: Document = {
-        id: fileId,
-        name: file.name,
-        size: file.size,
-        pages: Math.floor(Math.random() * 100) + 10,
-        uploadDate: new Date().toLocaleDateString(),
+  const upsertConversation = (conversation: Conversation) => {
+    setConversations(prev => prev.some(item => item.id === conversation.id)
+      ? prev.map(item => (item.id === conversation.id ? conversation : item))
+      : [conversation, ...prev])
+  }
+
+  /**
+   * Show a conversation with its own messages, session and scope
+   * (null: an empty chat that becomes a conversation with its first question)
+   */
+  const openConversation = (conversation: Conversation | null) => {
+    const messages = conversation?.messages ?? []
+    savedMessagesRef.current = messages
+    savedScopeRef.current = scopeKey(conversation?.scope)
+    setConversationId(conversation?.id ?? null)
+    setSessionId(conversation?.sessionId ?? null)
+    setChatMessages(messages)
+    setScope({
+      documentIds: conversation?.scope?.documentIds ?? [],
+      collections: conversation?.scope?.collections ?? [],
+    })
+  }
+
+  // Bring back the library and the latest conversation after a reload
+  useEffect(() => {
+    const restore = async () => {
+      const [documentsResult, collectionsResult, conversationsResult, quotaResult, trashResult] = await Promise.all([
+        fetchDocuments(),
+        fetchCollections(),
+        fetchConversations(),
+        fetchQuota(),
+        fetchTrash(),
+      ])
+
+      if (documentsResult.success && documentsResult.documents) {
+        setDocuments(documentsResult.documents)
+        setCitationCounts(documentsResult.citationCounts ?? {})
+      }
+      if (collectionsResult.success && collectionsResult.collections) {
+        setCollections(collectionsResult.collections)
+      }
+      if (quotaResult.success && quotaResult.limits) {
+        setLimits(quotaResult.limits)
+      }
+      // Needed before the first delete: it decides whether deleting can be undone
+      if (trashResult.success) {
+        setRetentionDays(trashResult.retentionDays ?? null)
+      }
+
+      const latest = conversationsResult.conversations?.[0]
+      if (latest) openConversation(latest)
+      setConversations(conversationsResult.conversations ?? [])
+
+      setRestored(true)
+    }
+    restore()
+  }, [])
+
+  // The library search, facets and sort live in the URL, so a filtered view can be bookmarked
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    setLibraryFilter(parseDocumentFilter(params))
+    setLibrarySort(parseDocumentSort(params))
+    setLibraryViewLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (!libraryViewLoaded) return
+    const query = documentFilterParams(libraryFilter, librarySort).toString()
+    if (query === window.location.search.slice(1)) return
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname)
+  }, [libraryFilter, librarySort, libraryViewLoaded])
+
+  // Persist the conversation once each turn has finished
+  useEffect(() => {
+    if (!restored || loading || !conversationId || savedMessagesRef.current === chatMessages) return
+    savedMessagesRef.current = chatMessages
+    saveConversationMessages(conversationId, chatMessages).then(result => {
+      if (result.success && result.conversation) upsertConversation(result.conversation)
+      else console.error('Failed to save conversation:', result.error)
+    })
+  }, [chatMessages, conversationId, loading, restored])
+
+  // Each conversation keeps the scope its questions were last asked in
+  useEffect(() => {
+    const key = scopeKey(scope)
+    if (!restored || !conversationId || savedScopeRef.current === key) return
+    savedScopeRef.current = key
+    updateConversation(conversationId, { scope }).then(result => {
+      if (result.success && result.conversation) upsertConversation(result.conversation)
+      else console.error('Failed to save conversation scope:', result.error)
+    })
+  }, [scope, conversationId, restored])
+
+  // Follow background ingestion: a finished job adds its document to the library
+  useEffect(() => {
+    const applyJob = (job: IngestJob) => {
+      if (finishedJobsRef.current.has(job.id)) return
+      if (job.state !== 'done') {
+        setJobs(prev => upsertJob(prev, job))
+        return
+      }
+
+      finishedJobsRef.current.add(job.id)
+      setJobs(prev => prev.filter(item => item.id !== job.id))
+      const newDoc = job.document
+      if (!newDoc) return
+      // A new version replaces the card of the version it supersedes
+      setDocuments(prev => [newDoc, ...prev.filter(doc => doc.id !== newDoc.id)])
+      if ((newDoc.version ?? 1) > 1) {
+        toast.success(`Uploaded ${newDoc.name} as version ${newDoc.version}`)
       }
+    }
+
+    // Events sent while disconnected are lost - catch up on every (re)connect
+    const catchUp = async () => {
+      const [jobsResult, documentsResult] = await Promise.all([fetchJobs(), fetchDocuments()])
+      if (jobsResult.success && jobsResult.jobs) {
+        jobsResult.jobs.filter(job => job.state === 'done').forEach(job => finishedJobsRef.current.add(job.id))
+        setJobs(jobsResult.jobs.filter(job => job.state !== 'done'))
+      }
+      if (documentsResult.success && documentsResult.documents) setDocuments(documentsResult.documents)
+    }
+
+    return subscribeToJobs(applyJob, catchUp)
+  }, [])
+
+  // Forget scope entries whose document or collection no longer exists
+  useEffect(() => {
+    if (!restored) return
+    setScope(prev => {
+      const documentIds = prev.documentIds.filter(id => documents.some(doc => doc.id === id))
+      const scopedCollections = prev.collections.filter(path => collections.includes(path))
+      return documentIds.length === prev.documentIds.length && scopedCollections.length === prev.collections.length
+        ? prev
+        : { documentIds, collections: scopedCollections }
+    })
+  }, [documents, collections, restored])
+
+  /**
+   * The current conversation, created on the first question
+   * @returns Its agent session id, or null if it could not be created
+   */
+  const ensureConversation = async () => {
+    if (conversationId && sessionId) return sessionId
+    const result = await createConversation(isScopeEmpty(scope) ? undefined : scope)
+    if (result.success && result.conversation) {
+      savedScopeRef.current = scopeKey(result.conversation.scope)
+      setConversationId(result.conversation.id)
+      setSessionId(result.conversation.sessionId)
+      upsertConversation(result.conversation)
+      return result.conversation.sessionId
+    }
+    console.error('Failed to create conversation:', result.error)
+    return null
+  }
+
+  // Files picked or dropped go to the review list first; nothing is sent until confirmed
+  const queueFiles = (collected: CollectedFile[]) => {
+    // Uploads land in the selected collection, folder structure below it
+    const supported = collected
+      .filter(({ file }) => detectDocumentFormat(file.name, file.type))
+      .map(item => ({ ...item, collectionPath: [selectedCollection, item.collectionPath].filter(Boolean).join('/') }))
+    const skipped = collected.length - supported.length
+    if (skipped > 0) {
+      toast.warning(`Skipped ${skipped} unsupported ${skipped === 1 ? 'file' : 'files'}`, {
+        description: `Supported: ${Object.values(DOCUMENT_FORMATS).map(info => info.label).join(', ')}`,
+      })
+    }
+
+    // The server would refuse these anyway; say so before anything is sent
+    const maxFileSize = limits?.maxFileSize ?? null
+    const oversized = supported.filter(({ file }) => maxFileSize !== null && file.size > maxFileSize)
+    if (maxFileSize !== null && oversized.length > 0) {
+      toast.warning(`Skipped ${oversized.length} ${oversized.length === 1 ? 'file' : 'files'} over the ${formatBytes(maxFileSize)} limit`, {
+        description: oversized.map(({ file }) => file.name).join(', '),
+      })
+    }
+
+    const stamp = Date.now()
+    setPendingFiles(prev => {
+      const key = ({ file, collectionPath }: CollectedFile) =>
+        `${collectionPath}/${file.name}:${file.size}:${file.lastModified}`
+      const queued = new Set(prev.map(key))
+      const added = supported
+        .filter(item => !oversized.includes(item) && !queued.has(key(item)))
+        .map((item, i) => ({ ...item, id: `${item.file.name}-${stamp}-${i}` }))
+      return [...prev, ...added]
+    })
+  }
+
+  const handleRemovePending = (id: string) => {
+    setPendingFiles(prev => prev.filter(item => item.id !== id))
+  }
+
+  const handleConfirmUpload = () => {
+    const batch = pendingFiles
+    setPendingFiles([])
+    uploadFiles(batch)
+  }
+
+  const uploadFiles = async (batch: PendingFile[]) => {
+    setUploadingFiles(prev => ({
+      ...prev,
+      ...Object.fromEntries(batch.map(({ file, id }) => [id, { name: file.name, progress: null }])),
+    }))
+    batch.forEach(({ id }) => {
+      uploadControllersRef.current[id] = new AbortController()
+    })
+
+    for (const { file, id: fileId, collectionPath } of batch) {
+      const controller = uploadControllersRef.current[fileId]
+      const result = await uploadDocument(file, {
+        signal: controller.signal,
+        collectionPath,
+        onProgress: progress => {
+          setUploadingFiles(prev => ({ ...prev, [fileId]: { name: file.name, progress } }))
+        },
+      })
 
-      setDocuments(prev => [newDoc, ...prev])
+      if (result.success && result.job) {
+        const job = result.job
+        // The job may already have finished, reported over the event stream
+        if (!finishedJobsRef.current.has(job.id)) setJobs(prev => upsertJob(prev, job))
+      } else if (result.cancelled) {
+        toast.info(result.error)
+      } else {
+        toast.error(result.error || `Failed to upload ${file.name}`, { description: result.details })
+      }
+
+      delete uploadControllersRef.current[fileId]
       setUploadingFiles(prev => {
         const updated = { ...prev }
         delete updated[fileId]
         return updated
       })
     }
+  }
 
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ''
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) queueFiles(readInputFiles(e.target.files))
+    // Allow picking the same file again
+    e.target.value = ''
+  }
+
+  const dropZoneProps = (zone: DropZone) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'copy'
+      if (dragZone !== zone) setDragZone(zone)
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      // Ignore leaving into a child of the zone
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragZone(null)
+    },
+    onDrop: async (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return
+      e.preventDefault()
+      setDragZone(null)
+      queueFiles(await readDroppedFiles(e.dataTransfer))
+    },
+  })
+
+  const handleRetryJob = async (jobId: string) => {
+    const result = await retryJob(jobId)
+    if (result.success && result.job) {
+      const job = result.job
+      setJobs(prev => upsertJob(prev, job))
+    } else {
+      toast.error(result.error || 'Failed to retry')
     }
   }
 
+  const handleDismissJob = async (jobId: string) => {
+    const result = await dismissJob(jobId)
+    if (result.success) {
+      setJobs(prev => prev.filter(job => job.id !== jobId))
+    } else {
+      toast.error(result.error || 'Failed to dismiss')
+    }
+  }
+
+  const handleCancelUpload = (fileId: string) => {
+    uploadControllersRef.current[fileId]?.abort()
+  }
+
   const handleUploadClick = () => {
     fileInputRef.current?.click()
   }
 
+  const handleUploadFolderClick = () => {
+    folderInputRef.current?.click()
+  }
+
+  // Clicking an author or keyword in the details panel filters the library by it
+  const handleFilterBy = (filter: DocumentFilter) => {
+    setLibraryFilter(prev => ({ ...prev, ...filter }))
+    setDetailsDoc(null)
+  }
+
+  const reloadLibrary = async () => {
+    const result = await fetchDocuments()
+    if (result.success && result.documents) setDocuments(result.documents)
+  }
+
+  const replaceDocument = (updated: Document) => {
+    setDocuments(prev => prev.map(doc => (doc.id === updated.id ? updated : doc)))
+    setDetailsDoc(prev => (prev?.id === updated.id ? updated : prev))
+  }
+
+  const handleMoveDocument = async (docId: string, collectionPath: string) => {
+    const doc = documents.find(item => item.id === docId)
+    if (!doc || (doc.collectionPath ?? '') === collectionPath) return
+
+    replaceDocument({ ...doc, collectionPath: collectionPath || undefined })
+    const result = await updateDocument(docId, { collectionPath })
+    if (result.success && result.document) {
+      replaceDocument(result.document)
+    } else {
+      replaceDocument(doc)
+      toast.error(result.error || `Failed to move ${doc.name}`)
+    }
+  }
+
+  const handleUpdateTags = async (doc: Document, tags: string[]) => {
+    replaceDocument({ ...doc, tags })
+    const result = await updateDocument(doc.id, { tags })
+    if (result.success && result.document) {
+      replaceDocument(result.document)
+    } else {
+      replaceDocument(doc)
+      toast.error(result.error || 'Failed to update tags')
+    }
+  }
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault()
+    const tag = tagInput.trim()
+    if (!detailsDoc || !tag) return
+    handleUpdateTags(detailsDoc, [...(detailsDoc.tags ?? []), tag])
+    setTagInput('')
+  }
+
+  const toggleCollection = (path: string, open: boolean) => {
+    setCollapsedCollections(prev => {
+      const updated = new Set(prev)
+      if (open) updated.delete(path)
+      else updated.add(path)
+      return updated
+    })
+  }
+
+  const openCollectionDialog = (mode: 'create' | 'rename', path: string) => {
+    setCollectionDialog({ mode, path })
+    setCollectionNameInput(mode === 'rename' ? path.slice(path.lastIndexOf('/') + 1) : '')
+  }
+
+  const handleSaveCollection = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = collectionNameInput.trim()
+    if (!collectionDialog || !name) return
+    const { mode, path } = collectionDialog
+
+    if (mode === 'create') {
+      const newPath = [path, name].filter(Boolean).join('/')
+      const result = await createCollection(newPath)
+      if (!result.success || !result.collections) {
+        toast.error(result.error || 'Failed to create collection')
+        return
+      }
+      setCollections(result.collections)
+      toggleCollection(path, true)
+    } else {
+      const newPath = [parentCollectionPath(path), name].filter(Boolean).join('/')
+      const result = await renameCollection(path, newPath)
+      if (!result.success || !result.collections) {
+        toast.error(result.error || 'Failed to rename collection')
+        return
+      }
+      // Before the collections change, so the scope cleanup finds the new paths
+      setScope(prev => ({
+        ...prev,
+        collections: prev.collections.map(scoped =>
+          isInCollection(scoped, path) ? newPath + scoped.slice(path.length) : scoped
+        ),
+      }))
+      setCollections(result.collections)
+      if (isInCollection(selectedCollection, path) && selectedCollection) {
+        setSelectedCollection(newPath + selectedCollection.slice(path.length))
+      }
+      await reloadLibrary()
+    }
+    setCollectionDialog(null)
+  }
+
+  const handleDeleteCollection = async (path: string) => {
+    setDeleteCollectionConfirm(null)
+    const result = await deleteCollection(path)
+    if (!result.success || !result.collections) {
+      toast.error(result.error || 'Failed to delete collection')
+      return
+    }
+    setCollections(result.collections)
+    if (selectedCollection && isInCollection(selectedCollection, path)) {
+      setSelectedCollection(parentCollectionPath(path))
+    }
+    await reloadLibrary()
+  }
+
+  /** The selected collection that covers this path, if any */
+  const scopingCollection = (path: string | undefined) =>
+    scope.collections.find(collection => isInCollection(path, collection))
+
+  const toggleScopeDocument = (docId: string, checked: boolean) => {
+    setScope(prev => ({
+      ...prev,
+      documentIds: checked ? [...prev.documentIds, docId] : prev.documentIds.filter(id => id !== docId),
+    }))
+  }
+
+  const toggleScopeCollection = (path: string, checked: boolean) => {
+    setScope(prev => {
+      if (!checked) return { ...prev, collections: prev.collections.filter(collection => collection !== path) }
+      // Whatever is inside the collection is now covered by it
+      return {
+        documentIds: prev.documentIds.filter(id => !isInCollection(documents.find(doc => doc.id === id)?.collectionPath, path)),
+        collections: [...prev.collections.filter(collection => !isInCollection(collection, path)), path],
+      }
+    })
+  }
+
+  const clearFilter = (name: keyof DocumentFilter) => {
+    setLibraryFilter(prev => {
+      const updated = { ...prev }
+      delete updated[name]
+      return updated
+    })
+  }
+
+  const handleShowHistory = async (doc: Document) => {
+    setHistoryDoc(doc)
+    setVersions([])
+    const result = await fetchDocumentVersions(doc.id)
+    if (result.success && result.versions) {
+      setVersions(result.versions)
+    } else {
+      toast.error(result.error || 'Failed to load version history')
+    }
+  }
+
+  const handleRestoreVersion = async (docId: string, version: number) => {
+    const result = await restoreDocumentVersion(docId, version)
+    if (result.success && result.document) {
+      const restored = result.document
+      setDocuments(prev => prev.map(doc => (doc.id === restored.id ? restored : doc)))
+      setHistoryDoc(null)
+      toast.success(`Restored version ${version} of ${restored.name}`)
+    } else {
+      toast.error(result.error || 'Failed to restore version')
+    }
+  }
+
   const handleDeleteDocument = async (docId: string) => {
-    setDocuments(prev => prev.filter(doc => doc.id !== docId))
     setDeleteConfirm(null)
+    const result = await deleteDocument(docId)
+    if (!result.success || !result.document) {
+      toast.error(result.error || 'Failed to delete document')
+      return
+    }
+
+    const trashed = result.document
+    setDocuments(prev => prev.filter(doc => doc.id !== docId))
+    setDetailsDoc(prev => (prev?.id === docId ? null : prev))
+    setTrashDocuments(prev => prev && [trashed, ...prev])
+
+    if (trashed.expiresAt > trashed.deletedAt) {
+      toast(`Moved ${trashed.name} to the trash`, {
+        action: { label: 'Undo', onClick: () => handleRestoreFromTrash(docId) },
+      })
+    } else {
+      toast(`Deleted ${trashed.name}`)
+    }
   }
 
-  const handleQuery = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!query.trim() || loading) return
+  const handleShowTrash = async () => {
+    setTrashOpen(true)
+    setTrashDocuments(null)
+    const result = await fetchTrash()
+    if (result.success && result.documents) {
+      setTrashDocuments(result.documents)
+      setRetentionDays(result.retentionDays ?? null)
+    } else {
+      setTrashDocuments([])
+      toast.error(result.error || 'Failed to load the trash')
+    }
+  }
 
-    const userMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      type: 'user',
-      content: query,
-      timestamp: new Date().toLocaleTimeString(),
+  const handleRestoreFromTrash = async (docId: string) => {
+    const result = await restoreFromTrash(docId)
+    if (result.success && result.document) {
+      const restored = result.document
+      setDocuments(prev =>
+        [restored, ...prev.filter(doc => doc.id !== restored.id)].sort((a, b) => b.uploadDate.localeCompare(a.uploadDate))
+      )
+      setTrashDocuments(prev => prev && prev.filter(doc => doc.id !== docId))
+      toast.success(`Restored ${restored.name}`)
+    } else {
+      toast.error(result.error || 'Failed to restore document')
     }
+  }
 
-    setChatMessages(prev => [...prev, userMessage])
-    setQuery('')
+  const handleDeleteForever = async (docId: string) => {
+    const result = await deleteFromTrash(docId)
+    if (result.success) {
+      setTrashDocuments(prev => prev && prev.filter(doc => doc.id !== docId))
+    } else {
+      toast.error(result.error || 'Failed to delete document')
+    }
+  }
+
+  const handleEmptyTrash = async () => {
+    const result = await emptyTrash()
+    if (result.success) {
+      setTrashDocuments([])
+    } else {
+      toast.error(result.error || 'Failed to empty the trash')
+    }
+  }
+
+  /** Keep the "Cited N×" counts in step when the answer shown for a question changes */
+  const updateCitationCounts = (before: ChatMessage | undefined, after: ChatMessage) => {
+    setCitationCounts(prev => {
+      const counts = { ...prev }
+      if (before) {
+        citedDocumentIds(before).forEach(id => {
+          counts[id] = Math.max(0, (counts[id] ?? 0) - 1)
+        })
+      }
+      citedDocumentIds(after).forEach(id => {
+        counts[id] = (counts[id] ?? 0) + 1
+      })
+      return counts
+    })
+  }
+
+  /**
+   * Ask the agent a question and stream the answer into the agent message
+   * `answerId` (added at the end of the chat if it is new). `keep` are earlier
+   * answers to the question, kept as versions next to the new one.
+   */
+  const askAgent = async (question: ChatMessage, answerId: string, keep: AnswerVersion[], session = sessionId) => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setAnsweringId(answerId)
     setLoading(true)
 
+    const replaced = chatMessages.find(message => message.id === answerId)
+    const showAnswer = (version: AnswerVersion) => {
+      const versions = [...keep, version]
+      const answer: ChatMessage = {
+        id: answerId,
+        type: 'agent',
+        ...version,
+        ...(versions.length > 1 && { versions, versionIndex: versions.length - 1 }),
+      }
+      setChatMessages(prev => prev.some(m => m.id === answerId)
+        ? prev.map(m => (m.id === answerId ? answer : m))
+        : [...prev, answer])
+      return answer
+    }
+    const finish = (version: AnswerVersion) => updateCitationCounts(replaced, showAnswer(version))
+    if (replaced) showAnswer({ content: '', timestamp: new Date().toISOString() })
+
+    // The answer card appears with the first streamed text and is completed in place
+    let streamed = ''
     try {
-      const response = await fetch('/api/agent', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          message: query,
-          agent_id: '6909a9b15d0b2c2413178b1e',
-        }),
+      const data = await streamAIAgent(question.content, AGENT_ID, {
+        session_id: session ?? undefined,
+        retrieve: true,
+        scope: question.scope,
+        signal: controller.signal,
+        onText: text => {
+          streamed += text
+          showAnswer({ content: streamed, timestamp: new Date().toISOString() })
+        },
       })
 
-      const data = await response.json()
+      if (controller.signal.aborted) {
+        finish({ content: streamed, status: 'stopped', timestamp: new Date().toISOString() })
+        return
+      }
+      if (!data.success) {
+        finish({
+          content: streamed,
+          status: 'failed',
+          error: data.error || 'The agent did not answer',
+          timestamp: new Date().toISOString(),
+        })
+        return
+      }
 
       let agentResponse: SearchResponse = {
         answer: 'No documents found matching your query. Please upload documents to get started.',
@@ -161,9 +834,10 @@ export default function HomePage() {
         },
       }
 
-      if (data.success && data.response) {
+      if (data.response) {
+        // A reply that is not JSON is the answer itself
         const parsedResponse = typeof data.response === 'string'
-          ? JSON.parse(data.response)
+          ? { answer: data.response }
           : data.response
 
         agentResponse = {
@@ -172,85 +846,617 @@ export default function HomePage() {
           documents_referenced: parsedResponse.documents_referenced ?? agentResponse.documents_referenced,
           confidence: parsedResponse.confidence ?? agentResponse.confidence,
           follow_up_suggestions: parsedResponse.follow_up_suggestions ?? agentResponse.follow_up_suggestions,
-          metadata: parsedResponse.metadata ?? agentResponse.metadata,
+          metadata: parsedResponse.metadata ?? {
+            ...agentResponse.metadata,
+            total_passages_retrieved: data.passages?.length ?? 0,
+          },
         }
       }
 
-      const agentMessage: ChatMessage = {
-        id: `msg-${Date.now() + 1}`,
-        type: 'agent',
-        content: agentResponse.answer,
+      finish({
+        content: agentResponse.answer ?? '',
         response: agentResponse,
-        timestamp: new Date().toLocaleTimeString(),
-      }
-
-      setChatMessages(prev => [...prev, agentMessage])
+        timestamp: new Date().toISOString(),
+      })
     } catch (err) {
       console.error('Error querying agent:', err)
-      const errorMessage: ChatMessage = {
-        id: `msg-${Date.now() + 1}`,
-        type: 'agent',
-        content: 'An error occurred while processing your query. Please try again.',
-        timestamp: new Date().toLocaleTimeString(),
-      }
-      setChatMessages(prev => [...prev, errorMessage])
+      finish({
+        content: streamed,
+        status: 'failed',
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: new Date().toISOString(),
+      })
     } finally {
+      abortControllerRef.current = null
+      setAnsweringId(null)
       setLoading(false)
     }
   }
 
+  const handleQuery = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!query.trim() || loading) return
+
+    const activeScope = isScopeEmpty(scope) ? undefined : scope
+    const userMessage: ChatMessage = {
+      id: `msg-${Date.now()}`,
+      type: 'user',
+      content: query,
+      ...(activeScope && { scope: activeScope }),
+      timestamp: new Date().toISOString(),
+    }
+
+    setChatMessages(prev => [...prev, userMessage])
+    setQuery('')
+    setLoading(true)
+    const conversationSessionId = await ensureConversation()
+    await askAgent(userMessage, `msg-${Date.now() + 1}`, [], conversationSessionId)
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  /** The question an agent message answers */
+  const questionFor = (answer: ChatMessage) =>
+    chatMessages.slice(0, chatMessages.indexOf(answer)).reverse().find(message => message.type === 'user')
+
+  const handleRetry = (answer: ChatMessage) => {
+    const question = questionFor(answer)
+    if (!question || loading) return
+    // The failed or stopped attempt makes way; earlier answers stay
+    const keep = (answer.versions ?? []).filter((_, index) => index !== answer.versionIndex)
+    askAgent(question, answer.id, keep)
+  }
+
+  const handleRegenerate = (answer: ChatMessage) => {
+    const question = questionFor(answer)
+    if (!question || loading) return
+    askAgent(question, answer.id, answer.versions ?? [answerVersion(answer)])
+  }
+
+  const handleShowVersion = (answer: ChatMessage, index: number) => {
+    const version = answer.versions?.[index]
+    if (!version || loading) return
+    const shown: ChatMessage = { id: answer.id, type: 'agent', ...version, versions: answer.versions, versionIndex: index }
+    setChatMessages(prev => prev.map(message => (message.id === answer.id ? shown : message)))
+    updateCitationCounts(answer, shown)
+  }
+
+  const handleSelectConversation = (id: string) => {
+    const conversation = conversations.find(item => item.id === id)
+    if (!conversation || loading) return
+    openConversation(conversation)
+    setConversationsOpen(false)
+  }
+
+  const handleNewConversation = () => {
+    if (loading) return
+    openConversation(null)
+    setConversationsOpen(false)
+  }
+
+  const handleUpdateConversation = async (id: string, changes: { title?: string; pinned?: boolean }) => {
+    const result = await updateConversation(id, changes)
+    if (result.success && result.conversation) {
+      upsertConversation(result.conversation)
+    } else {
+      toast.error(result.error || 'Could not update the conversation')
+    }
+  }
+
+  const handleDeleteConversation = async (id: string) => {
+    const result = await deleteConversation(id)
+    if (!result.success) {
+      toast.error(result.error || 'Could not delete the conversation')
+      return
+    }
+    setConversations(prev => prev.filter(item => item.id !== id))
+    if (id === conversationId) openConversation(null)
+  }
+
+  const handleImportConversation = async (file: File) => {
+    let data: unknown
+    try {
+      data = JSON.parse(await file.text())
+    } catch {
+      toast.error(`${file.name} is not a JSON file`)
+      return
+    }
+
+    const result = await importConversation(data)
+    if (!result.success || !result.conversation) {
+      toast.error(result.error || `Could not import ${file.name}`)
+      return
+    }
+    upsertConversation(result.conversation)
+    if (!loading) openConversation(result.conversation)
+    toast.success(`Imported ${result.conversation.title ?? file.name}`)
+  }
+
   const handleFollowUp = (suggestion: string) => {
     setQuery(suggestion)
   }
 
-  const totalSize = documents.reduce((sum, doc) => sum + doc.size, 0)
   const totalPages = documents.reduce((sum, doc) => sum + doc.pages, 0)
+  const activeConversation = conversations.find(item => item.id === conversationId)
+  const visibleDocuments = sortDocuments(
+    documents.filter(doc => matchesDocumentFilter(doc, libraryFilter)),
+    librarySort,
+    citationCounts
+  )
+  const filterActive = Object.values(libraryFilter).some(Boolean)
+  const facetCount = [libraryFilter.format, libraryFilter.collection, libraryFilter.uploadedFrom || libraryFilter.uploadedTo].filter(Boolean).length
+  const libraryFormats = (Object.keys(DOCUMENT_FORMATS) as DocumentFormat[]).filter(
+    format => format === libraryFilter.format || documents.some(doc => (doc.format ?? 'pdf') === format)
+  )
+  const libraryTree = buildCollectionTree(collections, documents)
+  const visibleTree = buildCollectionTree(collections, visibleDocuments)
+  const selectedNode = findCollection(libraryTree, selectedCollection) ?? libraryTree
+  const storageUsed = limits?.maxStorage ? libraryTree.stats.size / limits.maxStorage : 0
+  // While searching, collections without matches are hidden and the rest expanded
+  const showCollection = (node: CollectionNode) => !filterActive || node.stats.files > 0
+  const scopedDocuments = documentsInScope(documents, scope)
+  // Agent citations may only name the document
+  const citedDocument = selectedCitation
+    ? documents.find(doc => doc.id === selectedCitation.document_id) ??
+      documents.find(doc => doc.name === selectedCitation.document_name)
+    : undefined
+  const pendingSize = pendingFiles.reduce((sum, item) => sum + item.file.size, 0)
+
+  const dropOverlay = (zone: DropZone) => dragZone === zone && (
+    <div className="absolute inset-0 z-10 m-2 flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-blue-400 bg-blue-50/90 pointer-events-none">
+      <Upload className="w-8 h-8 text-blue-500 mb-2" />
+      <p className="text-sm font-medium text-blue-700">Drop files or folders to upload</p>
+    </div>
+  )
+
+  const renderDocumentCard = (doc: Document) => (
+    <Card
+      key={doc.id}
+      draggable
+      onDragStart={e => {
+        e.dataTransfer.setData(DOCUMENT_DRAG_TYPE, doc.id)
+        e.dataTransfer.effectAllowed = 'move'
+      }}
+      className="hover:shadow-md transition-shadow cursor-grab active:cursor-grabbing"
+    >
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-start gap-3 flex-1 min-w-0">
+            <Checkbox
+              checked={scope.documentIds.includes(doc.id) || !!scopingCollection(doc.collectionPath)}
+              disabled={!!scopingCollection(doc.collectionPath)}
+              onCheckedChange={checked => toggleScopeDocument(doc.id, checked === true)}
+              title={scopingCollection(doc.collectionPath)
+                ? `Included through ${scopingCollection(doc.collectionPath)}`
+                : 'Ask only about selected documents'}
+              className="mt-0.5"
+            />
+            <FileText className="w-5 h-5 text-blue-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{doc.name}</p>
+              {doc.metadata?.title && doc.metadata.title !== doc.name && (
+                <p className="text-xs text-gray-600 truncate" title={doc.metadata.title}>{doc.metadata.title}</p>
+              )}
+              {doc.metadata?.author && (
+                <p className="text-xs text-gray-500 truncate">{doc.metadata.author}</p>
+              )}
+              <div className="flex gap-2 mt-2 flex-wrap">
+                <Badge variant="outline" className="text-xs">{DOCUMENT_FORMATS[doc.format ?? 'pdf'].label}</Badge>
+                <Badge variant="secondary" className="text-xs">{doc.pages} pages</Badge>
+                <Badge variant="secondary" className="text-xs">{(doc.size / (1024 * 1024)).toFixed(1)}MB</Badge>
+                {(doc.version ?? 1) > 1 && (
+                  <Badge variant="secondary" className="text-xs">v{doc.version}</Badge>
+                )}
+                {librarySort.by === 'cited' && (
+                  <Badge variant="secondary" className="text-xs" title="Answers that cited this document">
+                    Cited {citationCounts[doc.id] ?? 0}×
+                  </Badge>
+                )}
+                {doc.ocrPages && doc.ocrPages.length > 0 && (
+                  <Badge variant="secondary" className="text-xs" title={`OCR used on pages ${doc.ocrPages.join(', ')}`}>
+                    <ScanText className="w-3 h-3 mr-1" />
+                    OCR
+                  </Badge>
+                )}
+              </div>
+              {doc.lowConfidencePages && doc.lowConfidencePages.length > 0 && (
+                <p className="flex items-center gap-1 text-xs text-amber-600 mt-2">
+                  <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                  Low OCR confidence on {doc.lowConfidencePages.length === 1 ? 'page' : 'pages'} {doc.lowConfidencePages.join(', ')}
+                </p>
+              )}
+              {doc.tags && doc.tags.length > 0 && (
+                <div className="flex gap-1 mt-2 flex-wrap">
+                  {doc.tags.map(tag => (
+                    <button key={tag} onClick={() => handleFilterBy({ tag })} title="Show documents with this tag">
+                      <Badge variant="outline" className="text-xs font-normal text-gray-600 hover:bg-blue-50">
+                        <Tag className="w-3 h-3 mr-1" />
+                        {tag}
+                      </Badge>
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-gray-500 mt-2">{new Date(doc.uploadDate).toLocaleDateString()}</p>
+              {doc.summary && (
+                <Collapsible className="group/summary mt-2">
+                  <CollapsibleTrigger asChild>
+                    <button className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-gray-900">
+                      <ChevronRight className="w-3 h-3 transition-transform group-data-[state=open]/summary:rotate-90" />
+                      Summary
+                    </button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="mt-2 space-y-2 text-xs text-gray-700">
+                    <p className="leading-relaxed">{doc.summary.summary}</p>
+                    {doc.summary.keyPoints.length > 0 && (
+                      <ul className="list-disc pl-4 space-y-1">
+                        {doc.summary.keyPoints.map((point, idx) => (
+                          <li key={idx}>{point}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {doc.summary.topics.length > 0 && (
+                      <div className="flex gap-1 flex-wrap">
+                        {doc.summary.topics.map(topic => (
+                          <button key={topic} onClick={() => handleFilterBy({ q: topic })} title="Search the library for this topic">
+                            <Badge variant="secondary" className="text-xs font-normal hover:bg-blue-50">{topic}</Badge>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {doc.summary.source === 'extractive' && (
+                      <p className="text-gray-400">Picked from the document text; the agent was unavailable</p>
+                    )}
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col flex-shrink-0">
+            <button
+              onClick={() => setDeleteConfirm(doc.id)}
+              className="p-2 hover:bg-red-50 rounded text-gray-400 hover:text-red-600"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setDetailsDoc(doc)}
+              title="Document details"
+              className="p-2 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-700"
+            >
+              <Info className="w-4 h-4" />
+            </button>
+            {(doc.version ?? 1) > 1 && (
+              <button
+                onClick={() => handleShowHistory(doc)}
+                title="Version history"
+                className="p-2 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-700"
+              >
+                <History className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  const collectionDropProps = (path: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DOCUMENT_DRAG_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      if (dragOverCollection !== path) setDragOverCollection(path)
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragOverCollection(null)
+    },
+    onDrop: (e: React.DragEvent) => {
+      const docId = e.dataTransfer.getData(DOCUMENT_DRAG_TYPE)
+      if (!docId) return
+      e.preventDefault()
+      setDragOverCollection(null)
+      handleMoveDocument(docId, path)
+    },
+  })
+
+  const collectionRowClass = (path: string) =>
+    `flex items-center gap-1 rounded-md px-1 py-1.5 text-sm text-sidebar-foreground hover:bg-sidebar-accent ${
+      selectedCollection === path ? 'bg-sidebar-accent font-medium' : ''
+    } ${dragOverCollection === path ? 'ring-2 ring-blue-400 bg-blue-50' : ''}`
+
+  const renderCollection = (node: CollectionNode) => (
+    <SidebarMenuItem key={node.path}>
+      <Collapsible
+        open={filterActive || !collapsedCollections.has(node.path)}
+        onOpenChange={open => toggleCollection(node.path, open)}
+        className="group/collapsible"
+      >
+        <div className={collectionRowClass(node.path)} {...collectionDropProps(node.path)}>
+          <CollapsibleTrigger asChild>
+            <button className="p-0.5 rounded hover:bg-gray-200 text-gray-500" title="Expand or collapse">
+              <ChevronRight className="w-4 h-4 transition-transform group-data-[state=open]/collapsible:rotate-90" />
+            </button>
+          </CollapsibleTrigger>
+          <Checkbox
+            checked={!!scopingCollection(node.path)}
+            disabled={!!scopingCollection(node.path) && !scope.collections.includes(node.path)}
+            onCheckedChange={checked => toggleScopeCollection(node.path, checked === true)}
+            title="Ask only about this collection"
+            className="mx-1"
+          />
+          <button onClick={() => setSelectedCollection(node.path)} className="flex items-center gap-2 flex-1 min-w-0 text-left">
+            <Folder className="w-4 h-4 text-amber-500 flex-shrink-0" />
+            <span className="truncate">{node.name}</span>
+          </button>
+          <span
+            className="text-xs text-gray-500 tabular-nums"
+            title={`${node.stats.files} files · ${node.stats.pages} pages · ${formatBytes(node.stats.size)}`}
+          >
+            {node.stats.files}
+          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="p-0.5 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-700" title="Collection actions">
+                <MoreHorizontal className="w-4 h-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => openCollectionDialog('create', node.path)}>New collection inside</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => openCollectionDialog('rename', node.path)}>Rename</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setDeleteCollectionConfirm(node.path)} className="text-red-600">
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <CollapsibleContent>
+          <SidebarMenuSub className="mx-2 mr-0 pr-0 pl-2 mt-1 gap-2">
+            {node.children.filter(showCollection).map(renderCollection)}
+            {node.documents.map(doc => (
+              <SidebarMenuSubItem key={doc.id}>{renderDocumentCard(doc)}</SidebarMenuSubItem>
+            ))}
+          </SidebarMenuSub>
+        </CollapsibleContent>
+      </Collapsible>
+    </SidebarMenuItem>
+  )
 
   return (
     <div className="h-screen flex bg-slate-50">
       {/* Sidebar - Document Library */}
-      <div className={`${sidebarOpen ? 'w-80' : 'w-0'} bg-white border-r border-gray-200 transition-all duration-300 flex flex-col overflow-hidden`}>
+      <div
+        className={`${sidebarOpen ? 'w-80' : 'w-0'} relative bg-white border-r border-gray-200 transition-all duration-300 flex flex-col overflow-hidden`}
+        {...dropZoneProps('sidebar')}
+      >
+        {dropOverlay('sidebar')}
         <div className="p-6 border-b border-gray-200">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold text-gray-900">Documents</h2>
-            <button onClick={() => setSidebarOpen(false)} className="p-1 hover:bg-gray-100 rounded">
-              <X className="w-4 h-4" />
-            </button>
+            <div className="flex items-center gap-1">
+              <button onClick={handleShowTrash} title="Trash" className="p-1 hover:bg-gray-100 rounded text-gray-500">
+                <Trash2 className="w-4 h-4" />
+              </button>
+              <button onClick={() => setSidebarOpen(false)} className="p-1 hover:bg-gray-100 rounded">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
           </div>
           <input
             ref={fileInputRef}
             type="file"
             multiple
-            accept=".pdf"
-            onChange={e => e.target.files && handleFileSelect(e.target.files)}
+            accept={ACCEPTED_FILE_TYPES}
+            onChange={handleInputChange}
             className="hidden"
           />
-          <Button onClick={handleUploadClick} className="w-full bg-blue-600 hover:bg-blue-700">
-            <Upload className="w-4 h-4 mr-2" />
-            Upload PDFs
-          </Button>
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+            onChange={handleInputChange}
+            className="hidden"
+          />
+          <div className="flex gap-2">
+            <Button onClick={handleUploadClick} className="flex-1 bg-blue-600 hover:bg-blue-700">
+              <Upload className="w-4 h-4 mr-2" />
+              Upload Documents
+            </Button>
+            <Button onClick={handleUploadFolderClick} variant="outline" title="Upload a folder">
+              <FolderUp className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-400 mt-2 text-center">or drop files and folders here</p>
         </div>
 
         <div className="px-6 py-3 bg-gray-50">
+          <p className="text-xs text-gray-500 text-center truncate mb-1" title={selectedCollection || undefined}>
+            {selectedCollection || 'All documents'}
+          </p>
           <div className="grid grid-cols-3 gap-4 text-center text-sm">
             <div>
-              <div className="text-lg font-semibold text-gray-900">{documents.length}</div>
+              <div className="text-lg font-semibold text-gray-900">{selectedNode.stats.files}</div>
               <div className="text-xs text-gray-500">Files</div>
             </div>
             <div>
-              <div className="text-lg font-semibold text-gray-900">{totalPages}</div>
+              <div className="text-lg font-semibold text-gray-900">{selectedNode.stats.pages}</div>
               <div className="text-xs text-gray-500">Pages</div>
             </div>
             <div>
-              <div className="text-lg font-semibold text-gray-900">{(totalSize / (1024 * 1024)).toFixed(1)}MB</div>
+              <div className="text-lg font-semibold text-gray-900">{(selectedNode.stats.size / (1024 * 1024)).toFixed(1)}MB</div>
               <div className="text-xs text-gray-500">Size</div>
             </div>
           </div>
+          {limits && (limits.maxStorage !== null || limits.maxDocuments !== null) && (
+            <div className="mt-3" title="Workspace usage; uploads over a limit are refused">
+              {limits.maxStorage !== null && (
+                <div className="w-full bg-gray-200 rounded-full h-1.5 overflow-hidden">
+                  <div
+                    className={`h-1.5 rounded-full transition-all ${
+                      storageUsed >= 0.95 ? 'bg-red-500' : storageUsed >= 0.8 ? 'bg-amber-500' : 'bg-blue-600'
+                    }`}
+                    style={{ width: `${Math.min(100, storageUsed * 100)}%` }}
+                  />
+                </div>
+              )}
+              <div className="flex justify-between gap-2 text-xs text-gray-500 mt-1">
+                <span>
+                  {limits.maxStorage !== null && `${formatBytes(libraryTree.stats.size)} of ${formatBytes(limits.maxStorage)}`}
+                </span>
+                {limits.maxDocuments !== null && (
+                  <span className={documents.length >= limits.maxDocuments ? 'text-red-600' : undefined}>
+                    {documents.length} of {limits.maxDocuments} documents
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 pt-4 space-y-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <Input
+              value={libraryFilter.q ?? ''}
+              onChange={e => setLibraryFilter(prev => ({ ...prev, q: e.target.value }))}
+              placeholder="Search name, tags, author, keywords..."
+              className="pl-9 h-9 text-sm"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={librarySort.by}
+              onValueChange={value => setLibrarySort({ by: value as DocumentSortKey, order: defaultSortOrder(value as DocumentSortKey) })}
+            >
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as DocumentSortKey[]).map(by => (
+                  <SelectItem key={by} value={by} className="text-xs">{SORT_LABELS[by]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              onClick={() => setLibrarySort(prev => ({ ...prev, order: prev.order === 'asc' ? 'desc' : 'asc' }))}
+              title={librarySort.order === 'asc' ? 'Ascending' : 'Descending'}
+            >
+              {librarySort.order === 'asc' ? <ArrowUpNarrowWide className="w-4 h-4" /> : <ArrowDownWideNarrow className="w-4 h-4" />}
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="h-8 text-xs flex-shrink-0">
+                  <SlidersHorizontal className="w-3.5 h-3.5 mr-1" />
+                  Filters
+                  {facetCount > 0 && <Badge className="ml-1 h-4 px-1 text-[10px]">{facetCount}</Badge>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-auto p-3 space-y-3">
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-gray-700">File type</p>
+                  <Select
+                    value={libraryFilter.format || ANY_FACET}
+                    onValueChange={value => setLibraryFilter(prev => ({ ...prev, format: value === ANY_FACET ? undefined : value }))}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_FACET} className="text-xs">Any type</SelectItem>
+                      {libraryFormats.map(format => (
+                        <SelectItem key={format} value={format} className="text-xs">{DOCUMENT_FORMATS[format].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-gray-700">Collection</p>
+                  <Select
+                    value={libraryFilter.collection || ANY_FACET}
+                    onValueChange={value => setLibraryFilter(prev => ({ ...prev, collection: value === ANY_FACET ? undefined : value }))}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_FACET} className="text-xs">Any collection</SelectItem>
+                      {collectionPaths(libraryTree).map(path => (
+                        <SelectItem key={path} value={path} className="text-xs">{path}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-medium text-gray-700">Uploaded</p>
+                    {(libraryFilter.uploadedFrom || libraryFilter.uploadedTo) && (
+                      <button
+                        onClick={() => setLibraryFilter(prev => ({ ...prev, uploadedFrom: undefined, uploadedTo: undefined }))}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        Any time
+                      </button>
+                    )}
+                  </div>
+                  <Calendar
+                    mode="range"
+                    className="rounded-md border p-2"
+                    selected={{ from: fromDayParam(libraryFilter.uploadedFrom), to: fromDayParam(libraryFilter.uploadedTo) }}
+                    defaultMonth={fromDayParam(libraryFilter.uploadedFrom)}
+                    disabled={{ after: new Date() }}
+                    onSelect={range =>
+                      setLibraryFilter(prev => ({
+                        ...prev,
+                        uploadedFrom: range?.from && toDayParam(range.from),
+                        uploadedTo: range?.to && toDayParam(range.to),
+                      }))
+                    }
+                  />
+                </div>
+              </PopoverContent>
+            </Popover>
+          </div>
+          {(Object.keys(FILTER_LABELS).some(name => libraryFilter[name as keyof DocumentFilter]) ||
+            libraryFilter.uploadedFrom ||
+            libraryFilter.uploadedTo) && (
+            <div className="flex gap-2 flex-wrap">
+              {(Object.keys(FILTER_LABELS) as Array<keyof DocumentFilter>)
+                .filter(name => libraryFilter[name])
+                .map(name => (
+                  <Badge key={name} variant="secondary" className="text-xs gap-1">
+                    {FILTER_LABELS[name]}:{' '}
+                    {name === 'format'
+                      ? DOCUMENT_FORMATS[libraryFilter.format as DocumentFormat]?.label ?? libraryFilter.format
+                      : libraryFilter[name]}
+                    <button onClick={() => clearFilter(name)} title="Remove filter">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              {(libraryFilter.uploadedFrom || libraryFilter.uploadedTo) && (
+                <Badge variant="secondary" className="text-xs gap-1">
+                  Uploaded: {libraryFilter.uploadedFrom ?? '…'} – {libraryFilter.uploadedTo ?? '…'}
+                  <button
+                    onClick={() => setLibraryFilter(prev => ({ ...prev, uploadedFrom: undefined, uploadedTo: undefined }))}
+                    title="Remove filter"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              )}
+            </div>
+          )}
         </div>
 
         <ScrollArea className="flex-1">
           <div className="p-6 space-y-3">
-            {documents.length === 0 && !Object.keys(uploadingFiles).length && (
+            {documents.length === 0 && !Object.keys(uploadingFiles).length && !jobs.length && (
               <div className="text-center py-12">
                 <FileText className="w-12 h-12 text-gray-300 mx-auto mb-3" />
                 <p className="text-sm text-gray-500">No documents yet</p>
@@ -258,233 +1464,766 @@ export default function HomePage() {
               </div>
             )}
 
-            {Object.entries(uploadingFiles).map(([fileId, progress]) => (
+            {Object.entries(uploadingFiles).map(([fileId, { name, progress }]) => (
               <Card key={fileId} className="overflow-hidden">
                 <CardContent className="p-4">
                   <div className="flex items-center gap-3">
                     <FileText className="w-5 h-5 text-blue-500 flex-shrink-0" />
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-900 truncate">{fileId.split('-')[0]}</p>
+                      <p className="text-sm font-medium text-gray-900 truncate">{name}</p>
                       <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
-                        <div className="bg-blue-600 h-1.5 rounded-full transition-all" style={{ width: `${progress}%` }} />
+                        <div className="bg-blue-600 h-1.5 rounded-full transition-all" style={{ width: `${progress?.percent ?? 0}%` }} />
                       </div>
-                      <p className="text-xs text-gray-500 mt-1">{Math.round(progress)}% uploading</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {!progress
+                          ? 'Waiting to upload'
+                          : progress.percent >= 100
+                            ? 'Finishing upload...'
+                            : `${Math.round(progress.percent)}% · ${formatBytes(progress.loaded)} of ${formatBytes(progress.total)}`}
+                      </p>
+                      {progress && progress.percent < 100 && progress.speed > 0 && (
+                        <p className="text-xs text-gray-400">
+                          {formatBytes(progress.speed)}/s{progress.eta !== null && ` · ${formatDuration(progress.eta)} left`}
+                        </p>
+                      )}
                     </div>
+                    {(!progress || progress.percent < 100) && (
+                      <button
+                        onClick={() => handleCancelUpload(fileId)}
+                        title="Cancel upload"
+                        className="p-1 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-700 flex-shrink-0"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             ))}
 
-            {documents.map(doc => (
-              <Card key={doc.id} className="hover:shadow-md transition-shadow">
+            {jobs.map(job => (
+              <Card key={job.id} className={`overflow-hidden ${job.state === 'failed' ? 'border-red-200' : ''}`}>
                 <CardContent className="p-4">
-                  <div className="flex items-start justify-between gap-3">
-                    <div className="flex items-start gap-3 flex-1 min-w-0">
+                  <div className="flex items-start gap-3">
+                    {job.state === 'failed' ? (
+                      <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                    ) : (
                       <FileText className="w-5 h-5 text-blue-500 flex-shrink-0 mt-0.5" />
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate">{doc.name}</p>
-                        <div className="flex gap-2 mt-2 flex-wrap">
-                          <Badge variant="secondary" className="text-xs">{doc.pages} pages</Badge>
-                          <Badge variant="secondary" className="text-xs">{(doc.size / (1024 * 1024)).toFixed(1)}MB</Badge>
-                        </div>
-                        <p className="text-xs text-gray-500 mt-2">{doc.uploadDate}</p>
-                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{job.name}</p>
+                      {job.state === 'failed' ? (
+                        <>
+                          <p className="text-xs text-red-600 mt-1">{job.error}</p>
+                          {job.details && <p className="text-xs text-gray-400 truncate" title={job.details}>{job.details}</p>}
+                          <div className="flex gap-2 mt-2">
+                            {job.retryable !== false && (
+                              <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => handleRetryJob(job.id)}>
+                                Retry
+                              </Button>
+                            )}
+                            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => handleDismissJob(job.id)}>
+                              Dismiss
+                            </Button>
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1 overflow-hidden">
+                            {job.state === 'ocr' && job.ocrPage && job.pageCount ? (
+                              <div
+                                className="bg-amber-500 h-1.5 rounded-full transition-all"
+                                style={{ width: `${((job.ocrPage - 1) / job.pageCount) * 100}%` }}
+                              />
+                            ) : (
+                              <div className={`bg-blue-600 h-1.5 rounded-full w-full ${job.state === 'queued' ? 'opacity-30' : 'animate-pulse'}`} />
+                            )}
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {JOB_STATE_LABELS[job.state]}
+                            {job.state === 'ocr' && job.ocrPage && ` · page ${job.ocrPage} of ${job.pageCount}`}
+                            {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                          </p>
+                        </>
+                      )}
                     </div>
-                    <button
-                      onClick={() => setDeleteConfirm(doc.id)}
-                      className="p-2 hover:bg-red-50 rounded text-gray-400 hover:text-red-600 flex-shrink-0"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                    {job.state === 'queued' && (
+                      <button
+                        onClick={() => handleDismissJob(job.id)}
+                        title="Cancel"
+                        className="p-1 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-700 flex-shrink-0"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             ))}
-          </div>
-        </ScrollArea>
-      </div>
 
-      {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col">
-        {/* Header */}
-        <div className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
-          <div className="flex items-center gap-4">
-            {!sidebarOpen && (
-              <button onClick={() => setSidebarOpen(true)} className="p-2 hover:bg-gray-100 rounded">
-                <FileText className="w-5 h-5" />
-              </button>
+            {documents.length > 0 && visibleDocuments.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8">No documents match your search</p>
             )}
-            <div>
-              <h1 className="text-xl font-bold text-gray-900">Document Search</h1>
-              <p className="text-xs text-gray-500">Ask anything about your documents</p>
-            </div>
-          </div>
-          <div className="text-right">
-            <p className="text-sm font-medium text-gray-900">{documents.length} documents</p>
-            <p className="text-xs text-gray-500">{totalPages} pages</p>
+
+            <SidebarMenu className="gap-2">
+              {/* Library root - dropping a document here takes it out of its collection */}
+              <SidebarMenuItem>
+                <div className={collectionRowClass('')} {...collectionDropProps('')}>
+                  <button onClick={() => setSelectedCollection('')} className="flex items-center gap-2 flex-1 min-w-0 px-1 text-left">
+                    <Library className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                    <span className="truncate">All documents</span>
+                  </button>
+                  <span className="text-xs text-gray-500 tabular-nums">{visibleTree.stats.files}</span>
+                  <button
+                    onClick={() => openCollectionDialog('create', '')}
+                    title="New collection"
+                    className="p-0.5 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-700"
+                  >
+                    <FolderPlus className="w-4 h-4" />
+                  </button>
+                </div>
+              </SidebarMenuItem>
+              {visibleTree.children.filter(showCollection).map(renderCollection)}
+              {visibleTree.documents.map(doc => (
+                <SidebarMenuItem key={doc.id}>{renderDocumentCard(doc)}</SidebarMenuItem>
+              ))}
+            </SidebarMenu>
           </div>
-        </div>
+        </ScrollArea>
+      </div>
 
-        {/* Chat Messages */}
-        <ScrollArea className="flex-1 p-6">
-          <div className="max-w-4xl mx-auto space-y-6">
-            {chatMessages.length === 0 && (
-              <div className="text-center py-20">
-                <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-                <h2 className="text-2xl font-semibold text-gray-900 mb-2">Start Searching Your Documents</h2>
-                <p className="text-gray-500 mb-8">Upload PDFs and ask questions to get started</p>
+      <ResizablePanelGroup direction="horizontal" className="flex-1">
+        <ResizablePanel id="chat" order={1} minSize={30}>
+          {/* Main Chat Area */}
+          <div className="h-full flex flex-col">
+            {/* Header */}
+            <div className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <div className="flex items-center gap-4">
+                {!sidebarOpen && (
+                  <button onClick={() => setSidebarOpen(true)} className="p-2 hover:bg-gray-100 rounded">
+                    <FileText className="w-5 h-5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => setConversationsOpen(true)}
+                  className="p-2 hover:bg-gray-100 rounded"
+                  title="Conversations"
+                >
+                  <MessagesSquare className="w-5 h-5" />
+                </button>
+                <div className="min-w-0">
+                  <h1 className="text-xl font-bold text-gray-900">Document Search</h1>
+                  <p className="text-xs text-gray-500 truncate">
+                    {conversationId
+                      ? activeConversation?.title ?? UNTITLED_CONVERSATION
+                      : 'Ask anything about your documents'}
+                  </p>
+                </div>
+                {conversationId && (
+                  <Button size="sm" variant="outline" onClick={handleNewConversation} disabled={loading}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    New
+                  </Button>
+                )}
               </div>
-            )}
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">{documents.length} documents</p>
+                <p className="text-xs text-gray-500">{totalPages} pages</p>
+              </div>
+            </div>
 
-            {chatMessages.map(message => (
-              <div key={message.id}>
-                {message.type === 'user' ? (
-                  <div className="flex justify-end mb-4">
-                    <Card className="bg-blue-600 text-white max-w-2xl">
-                      <CardContent className="p-4">
-                        <p className="text-sm">{message.content}</p>
-                        <p className="text-xs opacity-75 mt-2">{message.timestamp}</p>
-                      </CardContent>
-                    </Card>
+            {/* Chat Messages */}
+            <ScrollArea className="flex-1 p-6" {...(chatMessages.length === 0 ? dropZoneProps('chat') : {})}>
+              {dropOverlay('chat')}
+              <div className="max-w-4xl mx-auto space-y-6">
+                {chatMessages.length === 0 && (
+                  <div className="text-center py-20">
+                    <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                    <h2 className="text-2xl font-semibold text-gray-900 mb-2">Start Searching Your Documents</h2>
+                    <p className="text-gray-500 mb-8">Upload documents or drop them here, then ask questions to get started</p>
                   </div>
-                ) : (
-                  <div className="space-y-4">
-                    <Card className="bg-gray-50 max-w-3xl">
-                      <CardContent className="p-6">
-                        <p className="text-sm text-gray-900 leading-relaxed mb-4">{message.content}</p>
-
-                        {message.response && (
-                          <div className="space-y-4">
-                            {message.response.citations && message.response.citations.length > 0 && (
-                              <div>
-                                <p className="text-xs font-semibold text-gray-700 mb-3 uppercase tracking-wide">Sources</p>
-                                <div className="flex flex-wrap gap-2">
-                                  {message.response.citations.map((citation, idx) => (
-                                    <button
-                                      key={idx}
-                                      onClick={() => setSelectedCitation(citation)}
-                                      className="inline-flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 rounded-full hover:bg-blue-50 hover:border-blue-300 transition-colors text-xs"
-                                    >
-                                      <FileText className="w-3 h-3 text-blue-600" />
-                                      <span className="text-gray-700">{citation.document_name}</span>
-                                      <span className="text-gray-500">p.{citation.page_number}</span>
-                                    </button>
-                                  ))}
-                                </div>
+                )}
+
+                {chatMessages.map(message => (
+                  <div key={message.id}>
+                    {message.type === 'user' ? (
+                      <div className="flex justify-end mb-4">
+                        <Card className="bg-blue-600 text-white max-w-2xl">
+                          <CardContent className="p-4">
+                            <p className="text-sm">{message.content}</p>
+                            {message.scope && (
+                              <p className="text-xs opacity-75 mt-2">
+                                Asked about{' '}
+                                {[
+                                  ...(message.scope.collections ?? []),
+                                  ...(message.scope.documentIds ?? []).map(id => documents.find(doc => doc.id === id)?.name ?? 'a removed document'),
+                                ].join(', ')}
+                              </p>
+                            )}
+                            <p className="text-xs opacity-75 mt-2">{new Date(message.timestamp).toLocaleTimeString()}</p>
+                          </CardContent>
+                        </Card>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        <Card className="bg-gray-50 max-w-3xl">
+                          <CardContent className="p-6">
+                            {message.content ? (
+                              <p className="text-sm text-gray-900 leading-relaxed mb-4">{message.content}</p>
+                            ) : message.id === answeringId && (
+                              <div className="flex items-center gap-3">
+                                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                                <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.4s' }} />
                               </div>
                             )}
 
-                            {message.response.citations && message.response.citations.length > 0 && <Separator />}
-
-                            <div className="grid grid-cols-3 gap-4 text-center text-xs">
-                              <div>
-                                <p className="font-semibold text-gray-900">{Math.round((message.response.confidence ?? 0) * 100)}%</p>
-                                <p className="text-gray-500">Confidence</p>
-                              </div>
-                              <div>
-                                <p className="font-semibold text-gray-900">{message.response.documents_referenced?.length ?? 0}</p>
-                                <p className="text-gray-500">Documents</p>
+                            {message.status && (
+                              <div
+                                className={`flex items-center gap-3 rounded-lg border px-3 py-2 mb-4 text-sm ${
+                                  message.status === 'failed' ? 'border-red-200 bg-red-50 text-red-700' : 'border-gray-200 bg-white text-gray-600'
+                                }`}
+                              >
+                                {message.status === 'failed' ? <AlertTriangle className="w-4 h-4 flex-shrink-0" /> : <Square className="w-4 h-4 flex-shrink-0" />}
+                                <span className="flex-1">
+                                  {message.status === 'failed'
+                                    ? `The answer failed: ${message.error ?? 'unknown error'}`
+                                    : message.content ? 'Stopped before the answer was complete' : 'Stopped before the agent answered'}
+                                </span>
+                                <Button size="sm" variant="outline" onClick={() => handleRetry(message)} disabled={loading}>
+                                  <RotateCcw className="w-3 h-3 mr-1" />
+                                  Retry
+                                </Button>
                               </div>
-                              <div>
-                                <p className="font-semibold text-gray-900">{message.response.metadata?.total_passages_retrieved ?? 0}</p>
-                                <p className="text-gray-500">Passages</p>
+                            )}
+
+                            {message.response && (
+                              <div className="space-y-4">
+                                {message.response.citations && message.response.citations.length > 0 && (
+                                  <div>
+                                    <p className="text-xs font-semibold text-gray-700 mb-3 uppercase tracking-wide">Sources</p>
+                                    <div className="flex flex-wrap gap-2">
+                                      {message.response.citations.map((citation, idx) => {
+                                        const status = citation.verification?.status
+                                        return (
+                                          <button
+                                            key={idx}
+                                            onClick={() => setSelectedCitation(citation)}
+                                            title={status && CITATION_STATUS_STYLES[status].title}
+                                            className={`inline-flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 rounded-full hover:bg-blue-50 hover:border-blue-300 transition-colors text-xs ${status ? CITATION_STATUS_STYLES[status].chip : ''}`}
+                                          >
+                                            {status === 'verified' && <CheckCircle2 className="w-3 h-3 text-green-600" />}
+                                            {status === 'other_page' && <AlertTriangle className="w-3 h-3 text-amber-600" />}
+                                            {status === 'unverifiable' && <HelpCircle className="w-3 h-3 text-red-500" />}
+                                            {!status && <FileText className="w-3 h-3 text-blue-600" />}
+                                            <span className="text-gray-700">{citation.document_name}</span>
+                                            {status === 'other_page' ? (
+                                              <span className="text-gray-500">
+                                                <span className="line-through">p.{citation.page_number}</span>{' '}
+                                                <span className="text-amber-700 font-medium">p.{citation.verification?.found_page}</span>
+                                              </span>
+                                            ) : (
+                                              <span className="text-gray-500">p.{citation.page_number}</span>
+                                            )}
+                                          </button>
+                                        )
+                                      })}
+                                    </div>
+                                  </div>
+                                )}
+
+                                {message.response.citations && message.response.citations.length > 0 && <Separator />}
+
+                                <div className="grid grid-cols-3 gap-4 text-center text-xs">
+                                  <div>
+                                    <p className="font-semibold text-gray-900">{Math.round((message.response.confidence ?? 0) * 100)}%</p>
+                                    <p className="text-gray-500">Confidence</p>
+                                  </div>
+                                  <div>
+                                    <p className="font-semibold text-gray-900">{message.response.documents_referenced?.length ?? 0}</p>
+                                    <p className="text-gray-500">Documents</p>
+                                  </div>
+                                  <div>
+                                    <p className="font-semibold text-gray-900">{message.response.metadata?.total_passages_retrieved ?? 0}</p>
+                                    <p className="text-gray-500">Passages</p>
+                                  </div>
+                                </div>
+
+                                {message.response.follow_up_suggestions && message.response.follow_up_suggestions.length > 0 && (
+                                  <div>
+                                    <p className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">Follow-up Questions</p>
+                                    <div className="space-y-2">
+                                      {message.response.follow_up_suggestions.slice(0, 3).map((suggestion, idx) => (
+                                        <button
+                                          key={idx}
+                                          onClick={() => handleFollowUp(suggestion)}
+                                          className="w-full text-left text-xs p-2 rounded border border-gray-300 hover:bg-gray-100 text-gray-700 transition-colors"
+                                        >
+                                          {suggestion}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
+
+                                <p className="text-xs text-gray-500 mt-4">Processed in {message.response.metadata?.processing_time ?? '0s'}</p>
                               </div>
-                            </div>
+                            )}
 
-                            {message.response.follow_up_suggestions && message.response.follow_up_suggestions.length > 0 && (
-                              <div>
-                                <p className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">Follow-up Questions</p>
-                                <div className="space-y-2">
-                                  {message.response.follow_up_suggestions.slice(0, 3).map((suggestion, idx) => (
+                            {message.id !== answeringId && (message.response || message.versions) && (
+                              <div className="flex items-center justify-end gap-2 mt-4">
+                                {message.versions && message.versions.length > 1 && (
+                                  <div className="flex items-center gap-1 text-xs text-gray-500 mr-auto">
                                     <button
-                                      key={idx}
-                                      onClick={() => handleFollowUp(suggestion)}
-                                      className="w-full text-left text-xs p-2 rounded border border-gray-300 hover:bg-gray-100 text-gray-700 transition-colors"
+                                      onClick={() => handleShowVersion(message, (message.versionIndex ?? 0) - 1)}
+                                      disabled={loading || !message.versionIndex}
+                                      className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+                                      title="Previous answer"
                                     >
-                                      {suggestion}
+                                      <ChevronLeft className="w-3 h-3" />
                                     </button>
-                                  ))}
-                                </div>
+                                    <span>
+                                      Answer {(message.versionIndex ?? 0) + 1} of {message.versions.length}
+                                    </span>
+                                    <button
+                                      onClick={() => handleShowVersion(message, (message.versionIndex ?? 0) + 1)}
+                                      disabled={loading || (message.versionIndex ?? 0) >= message.versions.length - 1}
+                                      className="p-1 rounded hover:bg-gray-200 disabled:opacity-40"
+                                      title="Next answer"
+                                    >
+                                      <ChevronRight className="w-3 h-3" />
+                                    </button>
+                                  </div>
+                                )}
+                                {!message.status && (
+                                  <Button size="sm" variant="ghost" onClick={() => handleRegenerate(message)} disabled={loading} className="text-gray-600">
+                                    <RefreshCw className="w-3 h-3 mr-1" />
+                                    Regenerate
+                                  </Button>
+                                )}
                               </div>
                             )}
+                          </CardContent>
+                        </Card>
+                      </div>
+                    )}
+                  </div>
+                ))}
 
-                            <p className="text-xs text-gray-500 mt-4">Processed in {message.response.metadata?.processing_time ?? '0s'}</p>
-                          </div>
-                        )}
+                {loading && chatMessages[chatMessages.length - 1]?.type !== 'agent' && (
+                  <div className="flex justify-start">
+                    <Card className="bg-gray-50">
+                      <CardContent className="p-6">
+                        <div className="flex items-center gap-3">
+                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
+                          <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.4s' }} />
+                        </div>
                       </CardContent>
                     </Card>
                   </div>
                 )}
-              </div>
-            ))}
 
-            {loading && (
-              <div className="flex justify-start">
-                <Card className="bg-gray-50">
-                  <CardContent className="p-6">
-                    <div className="flex items-center gap-3">
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }} />
-                      <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.4s' }} />
-                    </div>
-                  </CardContent>
-                </Card>
+                <div ref={chatEndRef} />
               </div>
-            )}
+            </ScrollArea>
 
-            <div ref={chatEndRef} />
+            {/* Input Area */}
+            <div className="bg-white border-t border-gray-200 p-6">
+              <form onSubmit={handleQuery} className="max-w-4xl mx-auto">
+                {!isScopeEmpty(scope) && (
+                  <div className="flex items-center gap-2 flex-wrap mb-3">
+                    <span className="text-xs text-gray-500">
+                      Asking about {scopedDocuments.length} {scopedDocuments.length === 1 ? 'document' : 'documents'}:
+                    </span>
+                    {scope.collections.map(path => (
+                      <Badge key={path} variant="secondary" className="text-xs gap-1">
+                        <Folder className="w-3 h-3 text-amber-500" />
+                        {path}
+                        <button type="button" onClick={() => toggleScopeCollection(path, false)} title="Remove from scope">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    {scope.documentIds.map(id => (
+                      <Badge key={id} variant="secondary" className="text-xs gap-1">
+                        <FileText className="w-3 h-3 text-blue-600" />
+                        {documents.find(doc => doc.id === id)?.name}
+                        <button type="button" onClick={() => toggleScopeDocument(id, false)} title="Remove from scope">
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setScope({ documentIds: [], collections: [] })}
+                      className="text-xs text-gray-500 hover:text-gray-900 underline"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                )}
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    value={query}
+                    onChange={e => setQuery(e.target.value)}
+                    placeholder="Ask anything about your documents..."
+                    disabled={loading || documents.length === 0}
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-400"
+                  />
+                  {loading ? (
+                    <Button type="button" variant="outline" onClick={handleStop} title="Stop the answer">
+                      <Square className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      type="submit"
+                      disabled={!query.trim() || documents.length === 0}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                {documents.length === 0 && (
+                  <p className="text-xs text-gray-500 mt-2">Upload documents to enable searching</p>
+                )}
+              </form>
+            </div>
           </div>
-        </ScrollArea>
-
-        {/* Input Area */}
-        <div className="bg-white border-t border-gray-200 p-6">
-          <form onSubmit={handleQuery} className="max-w-4xl mx-auto">
-            <div className="flex gap-3">
-              <input
-                type="text"
-                value={query}
-                onChange={e => setQuery(e.target.value)}
-                placeholder="Ask anything about your documents..."
-                disabled={loading || documents.length === 0}
-                className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-400"
+        </ResizablePanel>
+        {selectedCitation && (
+          <>
+            <ResizableHandle withHandle />
+            <ResizablePanel id="source" order={2} defaultSize={45} minSize={25}>
+              <DocumentViewer
+                citation={selectedCitation}
+                document={citedDocument}
+                onClose={() => setSelectedCitation(null)}
               />
-              <Button
-                type="submit"
-                disabled={loading || !query.trim() || documents.length === 0}
-                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300"
-              >
-                <Send className="w-4 h-4" />
+            </ResizablePanel>
+          </>
+        )}
+      </ResizablePanelGroup>
+
+      {/* Conversations Drawer */}
+      <Sheet open={conversationsOpen} onOpenChange={setConversationsOpen}>
+        <SheetContent side="left" className="flex flex-col w-80 sm:max-w-sm">
+          <SheetHeader>
+            <SheetTitle>Conversations</SheetTitle>
+            <SheetDescription>Each conversation remembers its own questions and document scope</SheetDescription>
+          </SheetHeader>
+          <ConversationList
+            conversations={conversations}
+            activeId={conversationId}
+            disabled={loading}
+            onSelect={handleSelectConversation}
+            onNew={handleNewConversation}
+            onRename={(id, title) => handleUpdateConversation(id, { title })}
+            onTogglePin={id => handleUpdateConversation(id, { pinned: !conversations.find(item => item.id === id)?.pinned })}
+            onDelete={handleDeleteConversation}
+            onImport={handleImportConversation}
+          />
+        </SheetContent>
+      </Sheet>
+
+      {/* Pre-upload Review Dialog */}
+      <Dialog open={pendingFiles.length > 0} onOpenChange={open => !open && setPendingFiles([])}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Review Upload</DialogTitle>
+            <DialogDescription>
+              {pendingFiles.length} {pendingFiles.length === 1 ? 'file' : 'files'} · {formatBytes(pendingSize)}
+              {selectedCollection && <> · into {selectedCollection}</>}
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-80">
+            <div className="space-y-2 pr-3">
+              {pendingFiles.map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-3 p-2 border border-gray-200 rounded-lg">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileText className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{item.file.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {item.collectionPath && <>{item.collectionPath} · </>}
+                        {formatBytes(item.file.size)}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRemovePending(item.id)}
+                    title="Remove from upload"
+                    className="p-1 hover:bg-gray-100 rounded text-gray-400 hover:text-gray-700 flex-shrink-0"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <div className="flex gap-3 justify-end">
+            <Button variant="outline" onClick={() => setPendingFiles([])}>Cancel</Button>
+            <Button onClick={handleConfirmUpload} className="bg-blue-600 hover:bg-blue-700">
+              <Upload className="w-4 h-4 mr-2" />
+              Upload {pendingFiles.length} {pendingFiles.length === 1 ? 'file' : 'files'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Document Details Dialog */}
+      <Dialog
+        open={!!detailsDoc}
+        onOpenChange={() => {
+          setDetailsDoc(null)
+          setTagInput('')
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="break-words">{detailsDoc?.metadata?.title || detailsDoc?.name}</DialogTitle>
+            <DialogDescription className="break-words">{detailsDoc?.name}</DialogDescription>
+          </DialogHeader>
+          {detailsDoc && (
+            <ScrollArea className="max-h-[60vh]">
+              <div className="space-y-4 pr-3">
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                  {documentAuthors(detailsDoc).length > 0 && (
+                    <>
+                      <dt className="text-gray-500">Author</dt>
+                      <dd className="flex gap-1 flex-wrap">
+                        {documentAuthors(detailsDoc).map(author => (
+                          <button
+                            key={author}
+                            onClick={() => handleFilterBy({ author })}
+                            title="Show documents by this author"
+                            className="text-blue-600 hover:underline"
+                          >
+                            {author}
+                          </button>
+                        ))}
+                      </dd>
+                    </>
+                  )}
+                  {detailsDoc.metadata?.subject && (
+                    <>
+                      <dt className="text-gray-500">Subject</dt>
+                      <dd className="text-gray-900">{detailsDoc.metadata.subject}</dd>
+                    </>
+                  )}
+                  {detailsDoc.metadata?.createdAt && (
+                    <>
+                      <dt className="text-gray-500">Created</dt>
+                      <dd className="text-gray-900">{new Date(detailsDoc.metadata.createdAt).toLocaleString()}</dd>
+                    </>
+                  )}
+                  {detailsDoc.metadata?.modifiedAt && (
+                    <>
+                      <dt className="text-gray-500">Modified</dt>
+                      <dd className="text-gray-900">{new Date(detailsDoc.metadata.modifiedAt).toLocaleString()}</dd>
+                    </>
+                  )}
+                  <dt className="text-gray-500">Collection</dt>
+                  <dd className="text-gray-900 break-words">{detailsDoc.collectionPath || 'None'}</dd>
+                  <dt className="text-gray-500">Uploaded</dt>
+                  <dd className="text-gray-900">{new Date(detailsDoc.uploadDate).toLocaleString()}</dd>
+                  <dt className="text-gray-500">File</dt>
+                  <dd className="text-gray-900">
+                    {DOCUMENT_FORMATS[detailsDoc.format ?? 'pdf'].label} · {detailsDoc.pages} pages · {formatBytes(detailsDoc.size)}
+                  </dd>
+                </dl>
+
+                <div>
+                  <p className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">Tags</p>
+                  <div className="flex gap-2 flex-wrap items-center">
+                    {(detailsDoc.tags ?? []).map(tag => (
+                      <Badge key={tag} variant="outline" className="text-xs gap-1">
+                        <button onClick={() => handleFilterBy({ tag })} title="Show documents with this tag">{tag}</button>
+                        <button
+                          onClick={() => handleUpdateTags(detailsDoc, (detailsDoc.tags ?? []).filter(item => item !== tag))}
+                          title="Remove tag"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <form onSubmit={handleAddTag}>
+                      <Input
+                        value={tagInput}
+                        onChange={e => setTagInput(e.target.value)}
+                        placeholder="Add tag..."
+                        className="h-7 w-28 text-xs"
+                      />
+                    </form>
+                  </div>
+                </div>
+
+                {detailsDoc.metadata?.keywords && detailsDoc.metadata.keywords.length > 0 && (
+                  <div>
+                    <p className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">Keywords</p>
+                    <div className="flex gap-2 flex-wrap">
+                      {detailsDoc.metadata.keywords.map(keyword => (
+                        <button key={keyword} onClick={() => handleFilterBy({ keyword })} title="Show documents with this keyword">
+                          <Badge variant="secondary" className="text-xs hover:bg-blue-100">{keyword}</Badge>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {detailsDoc.outline && detailsDoc.outline.length > 0 && (
+                  <div>
+                    <p className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">Outline</p>
+                    <OutlineTree items={detailsDoc.outline} />
+                  </div>
+                )}
+
+                {!detailsDoc.metadata && !detailsDoc.outline && (
+                  <p className="text-xs text-gray-500">This file has no embedded metadata or bookmarks.</p>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* New / Rename Collection Dialog */}
+      <Dialog open={!!collectionDialog} onOpenChange={() => setCollectionDialog(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{collectionDialog?.mode === 'rename' ? 'Rename Collection' : 'New Collection'}</DialogTitle>
+            <DialogDescription>
+              {collectionDialog?.mode === 'rename'
+                ? collectionDialog.path
+                : collectionDialog?.path
+                  ? `Inside ${collectionDialog.path}`
+                  : 'At the top of the library'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveCollection} className="space-y-4">
+            <Input
+              value={collectionNameInput}
+              onChange={e => setCollectionNameInput(e.target.value)}
+              placeholder="Collection name"
+              autoFocus
+            />
+            <div className="flex gap-3 justify-end">
+              <Button type="button" variant="outline" onClick={() => setCollectionDialog(null)}>Cancel</Button>
+              <Button type="submit" disabled={!collectionNameInput.trim()} className="bg-blue-600 hover:bg-blue-700">
+                {collectionDialog?.mode === 'rename' ? 'Rename' : 'Create'}
               </Button>
             </div>
-            {documents.length === 0 && (
-              <p className="text-xs text-gray-500 mt-2">Upload documents to enable searching</p>
-            )}
           </form>
-        </div>
-      </div>
+        </DialogContent>
+      </Dialog>
 
-      {/* Citation Detail Modal */}
-      <Dialog open={!!selectedCitation} onOpenChange={() => setSelectedCitation(null)}>
-        <DialogContent className="max-w-2xl">
+      {/* Delete Collection Dialog */}
+      <AlertDialog open={!!deleteCollectionConfirm} onOpenChange={() => setDeleteCollectionConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogTitle>Delete Collection</AlertDialogTitle>
+          <AlertDialogDescription>
+            Delete {deleteCollectionConfirm} and its sub-collections? The documents inside are not deleted; they move to{' '}
+            {deleteCollectionConfirm && parentCollectionPath(deleteCollectionConfirm)
+              ? parentCollectionPath(deleteCollectionConfirm)
+              : 'the top of the library'}.
+          </AlertDialogDescription>
+          <div className="flex gap-3 justify-end">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteCollectionConfirm && handleDeleteCollection(deleteCollectionConfirm)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Version History Dialog */}
+      <Dialog open={!!historyDoc} onOpenChange={() => setHistoryDoc(null)}>
+        <DialogContent className="max-w-lg">
           <DialogHeader>
-            <DialogTitle>{selectedCitation?.document_name}</DialogTitle>
-            <DialogDescription>Page {selectedCitation?.page_number}</DialogDescription>
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>{historyDoc?.name}</DialogDescription>
           </DialogHeader>
-          <div className="bg-gray-50 p-4 rounded-lg">
-            <p className="text-sm text-gray-900 leading-relaxed italic">{selectedCitation?.excerpt}</p>
+          <div className="space-y-2">
+            {versions.length === 0 && <p className="text-sm text-gray-500">Loading versions...</p>}
+            {versions.map(version => (
+              <div key={version.version} className="flex items-center justify-between gap-3 p-3 border border-gray-200 rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    Version {version.version}
+                    {version.restoredFrom && <span className="text-xs text-gray-500 font-normal"> (restored from v{version.restoredFrom})</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(version.uploadDate).toLocaleString()} · {version.pages} pages · {(version.size / (1024 * 1024)).toFixed(1)}MB
+                  </p>
+                </div>
+                {version.version === historyDoc?.version ? (
+                  <Badge variant="secondary" className="text-xs">Current</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => historyDoc && handleRestoreVersion(historyDoc.id, version.version)}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
           </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-gray-500">Relevance:</span>
-              <div className="w-24 h-2 bg-gray-200 rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-blue-600 rounded-full"
-                  style={{ width: `${(selectedCitation?.relevance_score ?? 0) * 100}%` }}
-                />
+        </DialogContent>
+      </Dialog>
+
+      {/* Trash Dialog */}
+      <Dialog open={trashOpen} onOpenChange={setTrashOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              {retentionDays
+                ? `Deleted documents are kept for ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'}, then deleted for good.`
+                : 'Deleted documents are deleted for good right away.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {!trashDocuments && <p className="text-sm text-gray-500">Loading trash...</p>}
+            {trashDocuments?.length === 0 && <p className="text-sm text-gray-500">The trash is empty</p>}
+            {trashDocuments?.map(doc => (
+              <div key={doc.id} className="flex items-center justify-between gap-3 p-3 border border-gray-200 rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{doc.name}</p>
+                  <p className="text-xs text-gray-500">
+                    Deleted {new Date(doc.deletedAt).toLocaleString()} · gone after {new Date(doc.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => handleRestoreFromTrash(doc.id)}>
+                    Restore
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDeleteForever(doc.id)}
+                    title="Delete for good"
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
               </div>
-              <span className="text-xs font-medium text-gray-700">{Math.round((selectedCitation?.relevance_score ?? 0) * 100)}%</span>
-            </div>
+            ))}
           </div>
+          {!!trashDocuments?.length && (
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={handleEmptyTrash} className="text-red-600 hover:text-red-700">
+                Empty trash
+              </Button>
+            </div>
+          )}
         </DialogContent>
       </Dialog>
 
@@ -493,7 +2232,12 @@ export default function HomePage() {
         <AlertDialogContent>
           <AlertDialogTitle>Delete Document</AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete this document? This action cannot be undone. The document will be removed from your knowledge base.
+            {documents.find(doc => doc.id === deleteConfirm)?.name ?? 'This document'}
+            {retentionDays === 0
+              ? ' will be deleted permanently and no longer used to answer questions. This cannot be undone.'
+              : retentionDays
+                ? ` will be moved to the trash and no longer used to answer questions. You can restore it from the trash for ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'}.`
+                : ' will be deleted and no longer used to answer questions.'}
           </AlertDialogDescription>
           <div className="flex gap-3 justify-end">
             <AlertDialogCancel>Cancel</AlertDialogCancel>
@@ -19,6 +19,10 @@ const nextConfig = {
     ignoreBuildErrors: true,
   },
 
+  // pdfjs and tesseract.js spawn their own workers and @napi-rs/canvas is a
+  // native addon - load them from node_modules in API routes instead of bundling
+  serverExternalPackages: ['pdfjs-dist', 'tesseract.js', '@tesseract.js-data/eng', '@napi-rs/canvas'],
+
   // Enable experimental features if needed
   experimental: {
     // Add experimental features here if needed
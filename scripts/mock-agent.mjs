@@ -0,0 +1,144 @@
+/**
+ * Mock Agent Upstream
+ *
+ * A stand-in for the Lyzr inference API, for trying the chat (streaming
+ * included) without an agent or API key. Answers every question from the
+ * first passage `POST /api/agent` sends along with it, in the JSON shape the
+ * document Q&A agent uses.
+ *
+ * - POST /v3/inference/chat/   -> {response: "<JSON answer>"}
+ * - POST /v3/inference/stream/ -> the same answer as server-sent events of
+ *   raw text, a few characters each, ending with `data: [DONE]`
+ *
+ * Each request is logged with its session and turn number, to check that
+ * follow-up questions arrive in the session of their conversation, and
+ * streams the client cancels are logged as such. MOCK_AGENT_FAIL_AFTER=<n>
+ * drops every stream connection after n events, like a network failure.
+ *
+ * Usage:
+ * ```sh
+ * npm run mock-agent   # MOCK_AGENT_PORT=3999, MOCK_AGENT_DELAY_MS=30 by default
+ *
+ * # .env.local
+ * LYZR_API_KEY=mock
+ * LYZR_API_URL=http://localhost:3999/v3/inference/chat/
+ * LYZR_STREAM_URL=http://localhost:3999/v3/inference/stream/
+ * ```
+ *
+ * Tests start their own instance with `createMockAgent` (not listening yet).
+ */
+
+import http from 'node:http'
+import { pathToFileURL } from 'node:url'
+
+const PORT = Number(process.env.MOCK_AGENT_PORT) || 3999
+const CHUNK_SIZE = 8
+
+/**
+ * The agent's answer to a message built by `buildContextMessage`
+ */
+function answerFor(message) {
+  const question = message.split('QUESTION:\n').pop().trim()
+  const passage = message.match(/^\[1\] (.+) \(page (\d+)\):\n([\s\S]*?)(?:\n\n\[2\]|\n\nQUESTION:)/m)
+
+  if (!passage) {
+    return {
+      answer: `I could not find anything in your documents about "${question}".`,
+      citations: [],
+      documents_referenced: [],
+      confidence: 0.1,
+      follow_up_suggestions: ['Upload a document that covers this topic'],
+    }
+  }
+
+  // Kept on one line: `parseAgentResponse` unescapes \n before parsing
+  const [, documentName, pageNumber, passageText] = passage
+  const excerpt = passageText.replace(/\s+/g, ' ').trim()
+  return {
+    answer: `According to ${documentName} (page ${pageNumber}): "${excerpt}"`,
+    citations: [{ document_name: documentName, page_number: Number(pageNumber), excerpt }],
+    documents_referenced: [documentName],
+    confidence: 0.8,
+    follow_up_suggestions: [`What else does ${documentName} say?`, `Summarize page ${pageNumber}`],
+  }
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    request.setEncoding('utf8')
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => resolve(body))
+    request.on('error', reject)
+  })
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * @param {{delayMs?: number, failAfter?: number, log?: (line: string) => void}} [options]
+ *   `delayMs` between stream events, `failAfter` events before a stream
+ *   connection is dropped (never by default), `log` for each request
+ * @returns {http.Server}
+ */
+export function createMockAgent({ delayMs = 30, failAfter = Infinity, log = console.log } = {}) {
+  /** Messages received per session id */
+  const sessions = new Map()
+
+  return http.createServer(async (request, response) => {
+    if (request.method !== 'POST' || !request.url?.startsWith('/v3/inference/')) {
+      response.writeHead(404, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify({ detail: 'Not found' }))
+      return
+    }
+
+    let body
+    try {
+      body = JSON.parse(await readBody(request))
+    } catch {
+      response.writeHead(400, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify({ detail: 'Invalid JSON' }))
+      return
+    }
+
+    const reply = JSON.stringify(answerFor(String(body.message ?? '')))
+    const turn = (sessions.get(body.session_id) ?? 0) + 1
+    sessions.set(body.session_id, turn)
+    log(`${request.url} user=${body.user_id} session=${body.session_id} turn=${turn} agent=${body.agent_id}`)
+
+    if (request.url.startsWith('/v3/inference/chat/')) {
+      response.writeHead(200, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify({ response: reply }))
+      return
+    }
+
+    if (!request.url.startsWith('/v3/inference/stream/')) {
+      response.writeHead(404, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify({ detail: 'Not found' }))
+      return
+    }
+
+    let closed = false
+    response.on('close', () => (closed = true))
+    response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+    for (let i = 0; i < reply.length && !closed; i += CHUNK_SIZE) {
+      if (i / CHUNK_SIZE >= failAfter) {
+        log(`${request.url} session=${body.session_id} turn=${turn} dropped after ${failAfter} events`)
+        response.destroy()
+        return
+      }
+      // One line per event: the JSON text has no raw newlines
+      response.write(`data: ${reply.slice(i, i + CHUNK_SIZE)}\n\n`)
+      await sleep(delayMs)
+    }
+    if (closed) log(`${request.url} session=${body.session_id} turn=${turn} cancelled by the client`)
+    else response.end('data: [DONE]\n\n')
+  })
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createMockAgent({
+    delayMs: Number(process.env.MOCK_AGENT_DELAY_MS ?? 30),
+    failAfter: Number(process.env.MOCK_AGENT_FAIL_AFTER) || Infinity,
+  }).listen(PORT, () => console.log(`Mock agent listening on http://localhost:${PORT}`))
+}
@@ -0,0 +1,214 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Download, FileUp, MessageSquare, MoreHorizontal, Pin, PinOff, Plus, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogTitle } from '@/components/ui/alert-dialog'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import type { Conversation } from '@/types'
+import { CONVERSATION_EXPORT_FORMATS, type ConversationExportFormat } from '@/utils/conversationExport'
+import { conversationExportUrl } from '@/utils/conversationsApi'
+
+interface ConversationListProps {
+  conversations: Conversation[]
+  activeId: string | null
+  /** Switching is not possible while an answer is on its way */
+  disabled?: boolean
+  onSelect: (id: string) => void
+  onNew: () => void
+  onRename: (id: string, title: string) => void
+  onTogglePin: (id: string) => void
+  onDelete: (id: string) => void
+  /** A JSON file from "Export as JSON" */
+  onImport: (file: File) => void
+}
+
+export const UNTITLED_CONVERSATION = 'New conversation'
+
+function matchesSearch(conversation: Conversation, search: string): boolean {
+  const needle = search.trim().toLowerCase()
+  if (!needle) return true
+  return [conversation.title ?? '', ...conversation.messages.map(message => message.content)].some(text =>
+    text.toLowerCase().includes(needle)
+  )
+}
+
+/**
+ * Conversation threads: pinned first, then the most recently active. Search
+ * matches titles and every message; rename and delete ask in a dialog.
+ * Conversations export as Markdown, JSON or a printable page, and JSON
+ * exports can be imported again.
+ */
+export function ConversationList({
+  conversations,
+  activeId,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onImport,
+}: ConversationListProps) {
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [search, setSearch] = useState('')
+  const [renaming, setRenaming] = useState<Conversation | null>(null)
+  const [titleInput, setTitleInput] = useState('')
+  const [deleting, setDeleting] = useState<Conversation | null>(null)
+
+  const visible = conversations
+    .filter(conversation => matchesSearch(conversation, search))
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.updatedAt.localeCompare(a.updatedAt))
+
+  const openRename = (conversation: Conversation) => {
+    setTitleInput(conversation.title ?? '')
+    setRenaming(conversation)
+  }
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (renaming && titleInput.trim()) onRename(renaming.id, titleInput.trim())
+    setRenaming(null)
+  }
+
+  return (
+    <div className="flex flex-col gap-3 min-h-0 flex-1">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-gray-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <Input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search conversations..."
+            className="pl-8 h-9 text-sm"
+          />
+        </div>
+        <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()} className="h-9" title="Import a JSON export">
+          <FileUp className="w-4 h-4" />
+        </Button>
+        <Button size="sm" onClick={onNew} disabled={disabled} className="bg-blue-600 hover:bg-blue-700 h-9" title="New conversation">
+          <Plus className="w-4 h-4" />
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0]
+            if (file) onImport(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-1 -mx-2 px-2">
+        {visible.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-6">
+            {search.trim() ? `No conversations match "${search.trim()}"` : 'No conversations yet'}
+          </p>
+        )}
+        {visible.map(conversation => {
+          const questions = conversation.messages.filter(message => message.type === 'user').length
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 rounded-lg px-2 py-2 ${
+                conversation.id === activeId ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-100 border border-transparent'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(conversation.id)}
+                disabled={disabled}
+                className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+              >
+                <p className="text-sm font-medium text-gray-900 truncate flex items-center gap-1.5">
+                  {conversation.pinned ? (
+                    <Pin className="w-3 h-3 text-blue-600 flex-shrink-0" />
+                  ) : (
+                    <MessageSquare className="w-3 h-3 text-gray-400 flex-shrink-0" />
+                  )}
+                  <span className="truncate">{conversation.title ?? UNTITLED_CONVERSATION}</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {questions} {questions === 1 ? 'question' : 'questions'} · {new Date(conversation.updatedAt).toLocaleDateString()}
+                </p>
+              </button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="p-0.5 rounded hover:bg-gray-200 text-gray-400 hover:text-gray-700" title="Conversation actions">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => openRename(conversation)}>Rename</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => onTogglePin(conversation.id)}>
+                    {conversation.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                    {conversation.pinned ? 'Unpin' : 'Pin'}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  {(Object.keys(CONVERSATION_EXPORT_FORMATS) as ConversationExportFormat[]).map(format => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a
+                        href={conversationExportUrl(conversation.id, format)}
+                        {...(format === 'html' ? { target: '_blank', rel: 'noopener' } : { download: true })}
+                      >
+                        <Download className="w-4 h-4 mr-2" />
+                        Export as {CONVERSATION_EXPORT_FORMATS[format].label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={() => setDeleting(conversation)}
+                    disabled={disabled && conversation.id === activeId}
+                    className="text-red-600"
+                  >
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Rename Dialog */}
+      <Dialog open={!!renaming} onOpenChange={() => setRenaming(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Rename Conversation</DialogTitle>
+            <DialogDescription>{renaming?.title ?? UNTITLED_CONVERSATION}</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleRename} className="space-y-4">
+            <Input value={titleInput} onChange={e => setTitleInput(e.target.value)} placeholder="Conversation title" autoFocus />
+            <div className="flex gap-3 justify-end">
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+              <Button type="submit" disabled={!titleInput.trim()} className="bg-blue-600 hover:bg-blue-700">
+                Rename
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Conversation Dialog */}
+      <AlertDialog open={!!deleting} onOpenChange={() => setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogTitle>Delete Conversation</AlertDialogTitle>
+          <AlertDialogDescription>
+            Delete &quot;{deleting?.title ?? UNTITLED_CONVERSATION}&quot; and all of its messages? This cannot be undone.
+          </AlertDialogDescription>
+          <div className="flex gap-3 justify-end">
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && onDelete(deleting.id)} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </div>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,347 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import type { TextItem } from 'pdfjs-dist/types/src/display/api'
+import { ChevronLeft, ChevronRight, Download, X, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { Citation, Document, PageText } from '@/types'
+import { fetchDocumentPages } from '@/utils/documentsApi'
+import { locatePassage, segmentsInRange, type TextRange } from '@/utils/passageMatch'
+
+interface DocumentViewerProps {
+  citation: Citation
+  /** The cited document, when it is in the library */
+  document?: Document
+  onClose: () => void
+}
+
+interface HighlightBox {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3]
+
+/** Space kept free around the page when fitting it to the pane width */
+const PAGE_MARGIN = 32
+
+type PdfJs = typeof import('pdfjs-dist')
+
+let pdfjsPromise: Promise<PdfJs> | null = null
+
+/** pdfjs is only loaded once a viewer opens, and never on the server */
+function loadPdfJs(): Promise<PdfJs> {
+  pdfjsPromise ??= import('pdfjs-dist').then(pdfjs => {
+    pdfjs.GlobalWorkerOptions.workerSrc = '/api/pdf-worker'
+    return pdfjs
+  })
+  return pdfjsPromise
+}
+
+/**
+ * Agents sometimes send page numbers as strings ("4"); anything that is not
+ * a page number at all opens the first page
+ */
+function toPageNumber(value: unknown): number {
+  const page = Number(value)
+  return Number.isInteger(page) && page > 0 ? page : 1
+}
+
+/**
+ * Source viewer for a citation: renders the cited page (PDFs with pdfjs,
+ * other formats as their extracted page text), with zoom and page
+ * navigation, and highlights the cited passage.
+ */
+export function DocumentViewer({ citation, document, onClose }: DocumentViewerProps) {
+  const documentId = document?.id
+  const isPdf = (document?.format ?? 'pdf') === 'pdf'
+  // Open where the excerpt really is when the citation got the page wrong
+  const citedPage = toPageNumber(citation.verification?.found_page ?? citation.page_number)
+
+  const [pageNumber, setPageNumber] = useState(citedPage)
+  const [pageCount, setPageCount] = useState(document?.pages ?? 0)
+  const [zoom, setZoom] = useState<number | null>(null) // null = fit width
+  const [paneWidth, setPaneWidth] = useState(0)
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [pages, setPages] = useState<PageText[] | null>(null)
+  const [highlights, setHighlights] = useState<HighlightBox[]>([])
+  const [passageFound, setPassageFound] = useState<boolean | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const paneRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const highlightRef = useRef<HTMLElement | null>(null)
+  const [pageWidth, setPageWidth] = useState(0)
+
+  const scale = zoom ?? (pageWidth && paneWidth ? Math.max(0.25, (paneWidth - PAGE_MARGIN) / pageWidth) : 1)
+
+  useEffect(() => {
+    setPageNumber(citedPage)
+    setPassageFound(null)
+  }, [citation, citedPage])
+
+  useEffect(() => {
+    const pane = paneRef.current
+    if (!pane) return
+    const observer = new ResizeObserver(([entry]) => setPaneWidth(entry.contentRect.width))
+    observer.observe(pane)
+    return () => observer.disconnect()
+  }, [])
+
+  // Load the file (PDF) or the extracted page text (other formats)
+  useEffect(() => {
+    if (!documentId) return
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+    setError(null)
+    setPdf(null)
+    setPages(null)
+
+    if (isPdf) {
+      loadPdfJs()
+        .then(pdfjs => pdfjs.getDocument({ url: `/api/documents/${encodeURIComponent(documentId)}/file`, isEvalSupported: false }).promise)
+        .then(proxy => {
+          loaded = proxy
+          if (cancelled) return proxy.destroy()
+          setPdf(proxy)
+          setPageCount(proxy.numPages)
+        })
+        .catch(err => !cancelled && setError(err instanceof Error ? err.message : String(err)))
+    } else {
+      fetchDocumentPages(documentId).then(result => {
+        if (cancelled) return
+        if (result.success && result.pages) {
+          setPages(result.pages)
+          setPageCount(result.pages.length)
+        } else {
+          setError(result.error || 'Failed to load the document text')
+        }
+      })
+    }
+
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [documentId, isPdf])
+
+  // Render the current PDF page and work out where the cited passage is on it
+  useEffect(() => {
+    if (!pdf) return
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+
+    const render = async () => {
+      const pdfjs = await loadPdfJs()
+      const page = await pdf.getPage(pageNumber)
+      if (cancelled) return
+      setPageWidth(page.getViewport({ scale: 1 }).width)
+
+      const viewport = page.getViewport({ scale })
+      const canvas = canvasRef.current
+      if (!canvas) return
+      const outputScale = window.devicePixelRatio || 1
+      canvas.width = Math.floor(viewport.width * outputScale)
+      canvas.height = Math.floor(viewport.height * outputScale)
+      canvas.style.width = `${Math.floor(viewport.width)}px`
+      canvas.style.height = `${Math.floor(viewport.height)}px`
+
+      renderTask = page.render({
+        canvasContext: canvas.getContext('2d') as CanvasRenderingContext2D,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+      })
+      await renderTask.promise
+
+      if (pageNumber !== citedPage || !citation.excerpt) {
+        setHighlights([])
+        return
+      }
+
+      const content = await page.getTextContent()
+      if (cancelled) return
+      const items = content.items.filter((item): item is TextItem => 'str' in item)
+      const segments = items.map(item => item.str + (item.hasEOL ? '\n' : ''))
+      const range = locatePassage(segments, citation.excerpt)
+
+      setPassageFound(!!range)
+      setHighlights(
+        range
+          ? segmentsInRange(segments, range).map(index => {
+              const item = items[index]
+              const [, , c, d, x, y] = pdfjs.Util.transform(viewport.transform, item.transform)
+              const height = Math.hypot(c, d)
+              return { left: x, top: y - height, width: item.width * scale, height }
+            })
+          : []
+      )
+    }
+
+    render().catch(err => {
+      if (!cancelled && err?.name !== 'RenderingCancelledException') {
+        setError(err instanceof Error ? err.message : String(err))
+      }
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber, scale, citedPage, citation.excerpt])
+
+  // Text view: the cited passage as a range of the page text
+  const pageText = pages?.find(page => page.pageNumber === pageNumber)?.text ?? ''
+  const textRange: TextRange | null =
+    pages && pageNumber === citedPage && citation.excerpt ? locatePassage([pageText], citation.excerpt) : null
+
+  const found = isPdf ? passageFound : pages && citation.excerpt ? !!textRange : null
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' })
+  }, [highlights, textRange?.start])
+
+  const goToPage = (page: number) => setPageNumber(Math.min(Math.max(1, page), pageCount || 1))
+
+  const zoomBy = (step: number) => {
+    const index = ZOOM_LEVELS.findIndex(level => level >= scale - 0.001)
+    const current = index < 0 ? ZOOM_LEVELS.length - 1 : index
+    setZoom(ZOOM_LEVELS[Math.min(Math.max(0, current + step), ZOOM_LEVELS.length - 1)])
+  }
+
+  const relevance = Math.round((citation.relevance_score ?? 0) * 100)
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      {/* Toolbar */}
+      <div className="px-4 py-3 border-b border-gray-200 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-semibold text-gray-900 truncate" title={citation.document_name}>
+            {citation.document_name ?? document?.name}
+          </p>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {document && (
+              <a
+                href={`/api/documents/${encodeURIComponent(document.id)}/file?download=1`}
+                title="Download"
+                className="p-1 hover:bg-gray-100 rounded text-gray-500"
+              >
+                <Download className="w-4 h-4" />
+              </a>
+            )}
+            <button onClick={onClose} title="Close" className="p-1 hover:bg-gray-100 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {document && (
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant="ghost" onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1} title="Previous page">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <input
+                type="number"
+                min={1}
+                max={pageCount || undefined}
+                value={pageNumber}
+                onChange={e => e.target.value && goToPage(Number(e.target.value))}
+                className="w-12 h-8 text-sm text-center border border-gray-200 rounded"
+              />
+              <span className="text-xs text-gray-500">of {pageCount || '?'}</span>
+              <Button size="sm" variant="ghost" onClick={() => goToPage(pageNumber + 1)} disabled={pageNumber >= pageCount} title="Next page">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              {pageNumber !== citedPage && (
+                <Button size="sm" variant="link" onClick={() => goToPage(citedPage)} className="text-xs">
+                  Back to page {citedPage}
+                </Button>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <Button size="sm" variant="ghost" onClick={() => zoomBy(-1)} title="Zoom out">
+                <ZoomOut className="w-4 h-4" />
+              </Button>
+              <button
+                onClick={() => setZoom(null)}
+                title="Fit to width"
+                className={`text-xs w-12 tabular-nums rounded py-1 ${zoom === null ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-100'}`}
+              >
+                {Math.round(scale * 100)}%
+              </button>
+              <Button size="sm" variant="ghost" onClick={() => zoomBy(1)} title="Zoom in">
+                <ZoomIn className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Page */}
+      <div ref={paneRef} className="flex-1 overflow-auto bg-gray-100 p-4">
+        {!document && (
+          <p className="text-sm text-gray-500 text-center py-8">This source is not in your document library.</p>
+        )}
+        {error && <p className="text-sm text-red-600 text-center py-8">{error}</p>}
+        {document && isPdf && !error && (
+          <div className="relative mx-auto w-fit shadow bg-white">
+            <canvas ref={canvasRef} className="block" />
+            {highlights.map((box, i) => (
+              <div
+                key={i}
+                ref={i === 0 ? element => { highlightRef.current = element } : undefined}
+                className="absolute bg-yellow-300/40 mix-blend-multiply rounded-sm pointer-events-none"
+                style={{ left: box.left, top: box.top, width: box.width, height: box.height }}
+              />
+            ))}
+          </div>
+        )}
+        {document && !isPdf && pages && !error && (
+          <div
+            className="mx-auto max-w-3xl bg-white shadow p-8 whitespace-pre-wrap leading-relaxed text-gray-900"
+            style={{ fontSize: `${Math.round(14 * (zoom ?? 1))}px` }}
+          >
+            {textRange ? (
+              <>
+                {pageText.slice(0, textRange.start)}
+                <mark ref={element => { highlightRef.current = element }} className="bg-yellow-200">
+                  {pageText.slice(textRange.start, textRange.end)}
+                </mark>
+                {pageText.slice(textRange.end)}
+              </>
+            ) : (
+              pageText
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Cited passage */}
+      <div className="px-4 py-3 border-t border-gray-200 space-y-2">
+        <p className="text-xs text-gray-900 leading-relaxed italic line-clamp-3">{citation.excerpt}</p>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500">Relevance:</span>
+            <div className="w-24 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-600 rounded-full" style={{ width: `${relevance}%` }} />
+            </div>
+            <span className="text-xs font-medium text-gray-700">{relevance}%</span>
+          </div>
+          {citation.verification?.status === 'other_page' && (
+            <span className="text-xs text-amber-600">Cited as page {citation.page_number}, found on page {citedPage}</span>
+          )}
+          {citation.verification?.status === 'unverifiable' && (
+            <span className="text-xs text-red-600">Excerpt not found in the document</span>
+          )}
+          {!citation.verification && found === false && pageNumber === citedPage && (
+            <span className="text-xs text-amber-600">Passage not located on this page</span>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DocumentViewer
@@ -0,0 +1,45 @@
+/**
+ * Temporary Storage for Tests
+ *
+ * The stores read DOCUMENT_STORAGE_DIR once, when they load. Call
+ * `withTempStorage` at the top of a test file: before its tests run it points
+ * the variable at a fresh temp dir and loads the modules under test against
+ * it; afterwards the dir is removed.
+ *
+ * @example
+ * ```ts
+ * const modules = withTempStorage(async () => ({ store: await import('@/utils/documentStore') }))
+ *
+ * it('saves', async () => {
+ *   await modules.store.saveDocument(document, bytes)
+ * })
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, vi } from 'vitest'
+
+/**
+ * @param load - Imports the modules under test (dynamically, so they see the temp dir)
+ * @returns The loaded modules, filled in before the first test
+ */
+export function withTempStorage<T extends object>(load: () => Promise<T>): T {
+  const modules = {} as T
+  let storageDir: string
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'document-search-test-'))
+    vi.stubEnv('DOCUMENT_STORAGE_DIR', storageDir)
+    vi.resetModules()
+    Object.assign(modules, await load())
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await fs.rm(storageDir, { recursive: true, force: true })
+  })
+
+  return modules
+}
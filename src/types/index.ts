@@ -17,4 +17,230 @@ export type Theme = 'light' | 'dark'
 export interface AppConfig {
   apiUrl: string
   theme: Theme
-}
\ No newline at end of file
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'text' | 'html' | 'epub'
+
+export interface Document {
+  id: string
+  name: string
+  format: DocumentFormat
+  size: number
+  pages: number
+  uploadDate: string
+  uploadProgress?: number
+  /** SHA-256 of the uploaded bytes, hex */
+  contentHash?: string
+  /** Starts at 1; bumped when a changed file with the same name is uploaded */
+  version?: number
+  /** Set when this version was created by rolling back to an earlier one */
+  restoredFrom?: number
+  /** Pages whose text came from OCR */
+  ocrPages?: number[]
+  /** OCR pages whose confidence is below LOW_OCR_CONFIDENCE */
+  lowConfidencePages?: number[]
+  /** Folder the file was uploaded from, '/'-separated (e.g. 'Reports/2024') */
+  collectionPath?: string
+  /** Free-form labels, see `@/utils/collections` */
+  tags?: string[]
+  /** Descriptive fields embedded in the file (PDF info dictionary / XMP) */
+  metadata?: DocumentMetadata
+  /** Bookmark tree, when the file has one */
+  outline?: OutlineItem[]
+  /** Generated at ingestion, see `@/utils/documentSummary` */
+  summary?: DocumentSummary
+}
+
+export interface DocumentMetadata {
+  title?: string
+  author?: string
+  subject?: string
+  keywords?: string[]
+  /** ISO 8601 */
+  createdAt?: string
+  /** ISO 8601 */
+  modifiedAt?: string
+}
+
+export interface DocumentSummary {
+  /** A few sentences on what the document is about */
+  summary: string
+  keyPoints: string[]
+  topics: string[]
+  /** Written by the agent, or picked from the text when it was unavailable */
+  source: 'agent' | 'extractive'
+  /** ISO 8601 */
+  generatedAt: string
+}
+
+export interface OutlineItem {
+  title: string
+  /** 1-based; missing for bookmarks pointing outside the document */
+  pageNumber?: number
+  children: OutlineItem[]
+}
+
+/** Snapshot of a document as it was at one version */
+export type DocumentVersion = Omit<Document, 'uploadProgress'> & { version: number }
+
+/** A deleted document waiting in the trash, see `@/utils/trashStore` */
+export interface TrashedDocument extends Document {
+  /** ISO 8601 */
+  deletedAt: string
+  /** ISO 8601; the document is deleted for good after this */
+  expiresAt: string
+}
+
+/**
+ * Stages of a background ingestion job, see `@/utils/ingestQueue`
+ * (`ocr` only for scanned PDF pages)
+ */
+export type IngestJobState = 'queued' | 'extracting' | 'ocr' | 'summarizing' | 'indexing' | 'done' | 'failed'
+
+export interface IngestJob {
+  id: string
+  name: string
+  mimeType: string
+  size: number
+  collectionPath?: string
+  state: IngestJobState
+  /** While in `ocr`: the page being recognized, of how many */
+  ocrPage?: number
+  pageCount?: number
+  /** `done`: the stored document; `failed` with a 409: the existing copy */
+  document?: Document
+  /** Why the job failed, with the HTTP status the upload would have answered */
+  error?: string
+  details?: string
+  errorStatus?: number
+  /** Set when a workspace quota rejected the file */
+  errorCode?: QuotaCode
+  /** False when retrying cannot help (duplicate or unsupported file) */
+  retryable?: boolean
+  attempts: number
+  createdAt: string
+  updatedAt: string
+}
+
+/** Which limit an upload ran into, see `@/utils/quotas` */
+export type QuotaCode = 'file_too_large' | 'too_many_pages' | 'document_limit_reached' | 'storage_limit_reached'
+
+/** Workspace limits; null means unlimited */
+export interface WorkspaceLimits {
+  /** Bytes */
+  maxFileSize: number | null
+  /** Per document */
+  maxPages: number | null
+  /** Bytes, all documents together */
+  maxStorage: number | null
+  maxDocuments: number | null
+}
+
+export interface WorkspaceUsage {
+  documents: number
+  /** Bytes */
+  storage: number
+}
+
+export interface PageText {
+  pageNumber: number
+  text: string
+  /** Set when the text came from OCR: mean confidence, 0-1 */
+  ocrConfidence?: number
+}
+
+export interface DocumentChunk {
+  id: string
+  documentId: string
+  pageNumber: number
+  /** Character offsets into the page text, end exclusive */
+  start: number
+  end: number
+  text: string
+}
+
+export interface Citation {
+  document_id?: string
+  document_name?: string
+  page_number?: number
+  excerpt?: string
+  relevance_score?: number
+  /** Set on agent citations once checked against the stored page text */
+  verification?: CitationVerification
+}
+
+/**
+ * - verified: the excerpt is on the cited page
+ * - other_page: the excerpt is in the document, but on `found_page`
+ * - unverifiable: the excerpt (or the document) could not be found
+ */
+export type CitationStatus = 'verified' | 'other_page' | 'unverifiable'
+
+export interface CitationVerification {
+  status: CitationStatus
+  found_page?: number
+  /** Share of the excerpt found on the best matching page, 0-1 */
+  match_score: number
+}
+
+export interface SearchResponse {
+  answer?: string
+  citations?: Citation[]
+  documents_referenced?: string[]
+  confidence?: number
+  follow_up_suggestions?: string[]
+  metadata?: {
+    search_queries_used?: string[]
+    total_passages_retrieved?: number
+    processing_time?: string
+  }
+}
+
+/** Restricts a question to some documents; both lists empty means everything */
+export interface QueryScope {
+  documentIds?: string[]
+  /** Collection paths; sub-collections are included */
+  collections?: string[]
+}
+
+export interface ChatMessage {
+  id: string
+  type: 'user' | 'agent'
+  content: string
+  response?: SearchResponse
+  /** User messages: the documents the question was limited to */
+  scope?: QueryScope
+  /** Agent messages: set when the answer did not complete */
+  status?: AnswerStatus
+  /** Agent messages that failed: what went wrong */
+  error?: string
+  /**
+   * Agent messages that were regenerated: every answer, oldest first. The
+   * message's own fields are a copy of `versions[versionIndex]`.
+   */
+  versions?: AnswerVersion[]
+  versionIndex?: number
+  /** ISO 8601 */
+  timestamp: string
+}
+
+/** failed: the request failed; stopped: the user stopped it (content is what arrived) */
+export type AnswerStatus = 'failed' | 'stopped'
+
+export type AnswerVersion = Pick<ChatMessage, 'content' | 'response' | 'status' | 'error' | 'timestamp'>
+
+export interface Conversation {
+  id: string
+  /** Made from the first question until the conversation is renamed */
+  title?: string
+  /** Agent session every turn is sent in, so the agent remembers earlier questions */
+  sessionId: string
+  /** Listed above the other conversations */
+  pinned?: boolean
+  /** The documents new questions are limited to */
+  scope?: QueryScope
+  messages: ChatMessage[]
+  createdAt: string
+  /** When the messages last changed */
+  updatedAt: string
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { createAnswerExtractor, partialJsonString } from '@/utils/agentUpstream'
+
+/** Feed a reply to a fresh extractor in pieces of `size` characters */
+function extractInPieces(reply: string, size: number): string[] {
+  const extract = createAnswerExtractor()
+  const added: string[] = []
+  for (let i = 0; i < reply.length; i += size) added.push(extract(reply.slice(i, i + size)))
+  return added
+}
+
+describe('partialJsonString', () => {
+  it('decodes a complete string property', () => {
+    expect(partialJsonString('{"answer": "a \\"quoted\\" \\\\ word\\n", "x": 1}', 'answer')).toBe('a "quoted" \\ word\n')
+  })
+
+  it('returns as much of a cut-off value as has arrived', () => {
+    expect(partialJsonString('{"confidence": 0.8, "answer": "Either party', 'answer')).toBe('Either party')
+    expect(partialJsonString('{"confidence": 0.8, "ans', 'answer')).toBe('')
+  })
+
+  it('stops before an escape that is not complete yet', () => {
+    expect(partialJsonString('{"answer": "line\\', 'answer')).toBe('line')
+    expect(partialJsonString('{"answer": "caf\\u00', 'answer')).toBe('caf')
+    expect(partialJsonString('{"answer": "caf\\u00e9', 'answer')).toBe('café')
+  })
+})
+
+describe('createAnswerExtractor', () => {
+  const answer = 'Notice is "30 days"\nper section 4 – see \\ page 2'
+  const reply = JSON.stringify({ answer, citations: [{ page_number: 2 }], confidence: 0.8 })
+
+  it('emits the answer once, whatever the chunk size', () => {
+    for (const size of [1, 2, 3, 5, 8, 13, reply.length]) {
+      expect(extractInPieces(reply, size).join('')).toBe(answer)
+    }
+  })
+
+  it('emits nothing for an escape split across chunks until it completes', () => {
+    const extract = createAnswerExtractor()
+    expect(extract('{"answer": "a\\')).toBe('a')
+    expect(extract('u20')).toBe('')
+    expect(extract('13b\\')).toBe('–b')
+    expect(extract('"c"')).toBe('"c')
+  })
+
+  it('passes replies that are not JSON through as they are', () => {
+    const extract = createAnswerExtractor()
+    expect(extract('  ')).toBe('')
+    expect(extract(' Plain')).toBe('Plain')
+    expect(extract(' answer')).toBe(' answer')
+  })
+
+  it('follows an answer inside a code fence', () => {
+    expect(extractInPieces('```json\n{"answer": "fenced"}\n```', 4).join('')).toBe('fenced')
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Agent Upstream (server-side only)
+ *
+ * The server half of the `callAIAgent` path: sends a message to the Lyzr
+ * inference API with the server-side API key and parses the agent's reply.
+ * Used by `POST /api/agent` and by anything else on the server that needs the
+ * agent (document summaries at ingestion).
+ *
+ * Agents are prompted to answer in JSON, but replies come back as strings
+ * wrapped in code fences, with escaped newlines, trailing commas or prose
+ * around them - `parseAgentResponse` tries increasingly lenient strategies and
+ * keeps the original reply when none of them finds JSON.
+ *
+ * `openAgentStream` uses the streaming endpoint instead: the reply arrives as
+ * server-sent events of raw text, and `createAnswerExtractor` picks the
+ * `answer` text out of the partial JSON as it grows.
+ *
+ * Both endpoints can be pointed elsewhere with LYZR_API_URL and
+ * LYZR_STREAM_URL, e.g. at the local mock in `scripts/mock-agent.mjs`.
+ *
+ * @example
+ * ```ts
+ * import { callAgentUpstream } from '@/utils/agentUpstream'
+ *
+ * const result = await callAgentUpstream({ message: 'Summarize ...', agent_id })
+ * if (result.success) console.log(result.response)
+ * ```
+ */
+
+import parseLLMJson from '@/utils/jsonParser'
+import { readServerSentEvents } from '@/utils/sse'
+
+const LYZR_API_URL = process.env.LYZR_API_URL || 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const LYZR_STREAM_URL = process.env.LYZR_STREAM_URL || 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+
+// API key from environment variable only - NO hardcoded fallback!
+const LYZR_API_KEY = process.env.LYZR_API_KEY
+
+// Sessions belong to a user; without accounts, the whole workspace is one
+const DEFAULT_USER_ID = 'workspace'
+
+export interface AgentUpstreamRequest {
+  message: string
+  agent_id: string
+  user_id?: string
+  /** The agent remembers earlier messages of the same session; a new one is made if omitted */
+  session_id?: string
+  signal?: AbortSignal
+}
+
+type AgentUpstreamFailure = { success: false; status: number; error: string; details?: string }
+
+export type AgentUpstreamResult = { success: true; response: any; raw_response: any } | AgentUpstreamFailure
+
+export type AgentStreamResult = { success: true; chunks: AsyncGenerator<string> } | AgentUpstreamFailure
+
+const NOT_CONFIGURED: AgentUpstreamFailure = {
+  success: false,
+  status: 500,
+  error: 'LYZR_API_KEY not configured in .env.local',
+}
+
+export function isAgentConfigured(): boolean {
+  return !!LYZR_API_KEY
+}
+
+/**
+ * Send one message to the agent. Network failures throw; error statuses from
+ * the API are returned with their status.
+ */
+export async function callAgentUpstream(request: AgentUpstreamRequest): Promise<AgentUpstreamResult> {
+  if (!LYZR_API_KEY) return NOT_CONFIGURED
+
+  const response = await fetch(LYZR_API_URL, upstreamInit(LYZR_API_KEY, request))
+  if (!response.ok) return upstreamFailure(response)
+
+  const data = await response.json()
+  return { success: true, response: parseAgentResponse(data.response), raw_response: data.response }
+}
+
+/**
+ * Start a streaming reply. `chunks` yields the raw reply text piece by piece;
+ * join them and pass the result to `parseAgentResponse` for the final payload.
+ * Network failures throw; error statuses from the API are returned.
+ */
+export async function openAgentStream(request: AgentUpstreamRequest): Promise<AgentStreamResult> {
+  if (!LYZR_API_KEY) return NOT_CONFIGURED
+
+  const response = await fetch(LYZR_STREAM_URL, upstreamInit(LYZR_API_KEY, request))
+  if (!response.ok || !response.body) return upstreamFailure(response)
+
+  return { success: true, chunks: streamedText(response.body) }
+}
+
+function upstreamInit(apiKey: string, request: AgentUpstreamRequest): RequestInit {
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+    },
+    body: JSON.stringify({
+      user_id: request.user_id || DEFAULT_USER_ID,
+      agent_id: request.agent_id,
+      session_id: request.session_id || `session-${Date.now()}`,
+      message: request.message,
+    }),
+    signal: request.signal,
+  }
+}
+
+async function upstreamFailure(response: Response): Promise<AgentUpstreamFailure> {
+  return {
+    success: false,
+    status: response.ok ? 502 : response.status,
+    error: `API returned status ${response.status}`,
+    details: await response.text().catch(() => undefined),
+  }
+}
+
+async function* streamedText(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  for await (const { data } of readServerSentEvents(body)) {
+    if (data === '[DONE]') return
+    yield chunkText(data)
+  }
+}
+
+/**
+ * Stream events carry the text as-is, or as a JSON object wrapping it
+ */
+function chunkText(data: string): string {
+  if (!data.startsWith('{')) return data
+  try {
+    const parsed = JSON.parse(data)
+    const text = ['content', 'chunk', 'text', 'delta'].map(key => parsed?.[key]).find(value => typeof value === 'string')
+    return text ?? data
+  } catch {
+    // A piece of the JSON reply itself, not a wrapper
+    return data
+  }
+}
+
+/**
+ * Follow the `answer` of a reply that is still being written. Feed it every
+ * raw chunk; it returns the answer text that chunk added. Replies that are
+ * not JSON are passed through as they are.
+ */
+export function createAnswerExtractor(): (chunk: string) => string {
+  let raw = ''
+  let mode: 'pending' | 'json' | 'text' = 'pending'
+  let emitted = 0
+
+  return chunk => {
+    raw += chunk
+    if (mode === 'pending') {
+      const start = raw.trimStart()
+      if (!start) return ''
+      mode = start.startsWith('{') || start.startsWith('`') ? 'json' : 'text'
+      if (mode === 'text') raw = start
+    }
+
+    const answer = mode === 'text' ? raw : partialJsonString(raw, 'answer')
+    const added = answer.slice(emitted)
+    emitted = answer.length
+    return added
+  }
+}
+
+const JSON_ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }
+
+/**
+ * The decoded value of a string property of a JSON text that may be cut off
+ * anywhere - as much of it as has arrived
+ */
+export function partialJsonString(json: string, key: string): string {
+  const start = json.match(new RegExp(`"${key}"\\s*:\\s*"`))
+  if (start?.index === undefined) return ''
+
+  let value = ''
+  for (let i = start.index + start[0].length; i < json.length; i++) {
+    const char = json[i]
+    if (char === '"') break
+    if (char !== '\\') {
+      value += char
+      continue
+    }
+
+    const escape = json[i + 1]
+    if (escape === undefined) break
+    if (escape === 'u') {
+      const hex = json.slice(i + 2, i + 6)
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break
+      value += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+    } else {
+      value += JSON_ESCAPES[escape] ?? escape
+      i += 1
+    }
+  }
+  return value
+}
+
+/**
+ * Turn an agent reply into an object when it holds JSON, applying in order:
+ * 1. Preprocessing: Removes \n, \r, \t escapes and code block markers
+ * 2. Direct parse: Fast JSON.parse for well-formed JSON
+ * 3. Advanced parse: parseLLMJson with automatic fixes
+ * 4. Extraction: Finds and parses JSON from mixed text
+ * 5. Last resort: Aggressive parsing with all fixes enabled
+ * @returns The parsed object, or the reply unchanged
+ */
+export function parseAgentResponse(reply: any): any {
+  let parsedResponse = reply
+
+  if (typeof reply === 'string') {
+    try {
+      // STRATEGY 1: Clean up common LLM response issues
+      let cleaned = reply
+
+      // Remove literal \n, \r, \t escape sequences (not actual newlines!)
+      cleaned = cleaned.replace(/\\n/g, '\n')
+      cleaned = cleaned.replace(/\\r/g, '\r')
+      cleaned = cleaned.replace(/\\t/g, '\t')
+
+      // Remove markdown code blocks (```json, ```, etc.)
+      cleaned = cleaned.replace(/^```(?:json|JSON)?\s*\n?/gm, '')
+      cleaned = cleaned.replace(/\n?```\s*$/gm, '')
+
+      // Trim whitespace
+      cleaned = cleaned.trim()
+
+      // STRATEGY 2: Try direct JSON.parse first (fastest)
+      try {
+        const directParse = JSON.parse(cleaned)
+        if (directParse && typeof directParse === 'object') {
+          parsedResponse = directParse
+          console.log('✅ Direct JSON.parse succeeded')
+        }
+      } catch (directError) {
+        // STRATEGY 3: Use advanced parseLLMJson for complex cases
+        console.log('⚙️ Trying advanced parseLLMJson...')
+        const parsed = parseLLMJson(cleaned, {
+          attemptFix: true,
+          maxBlocks: 5,
+          preferFirst: true,
+          allowPartial: false
+        })
+
+        if (parsed && typeof parsed === 'object') {
+          parsedResponse = parsed
+          console.log('✅ parseLLMJson succeeded')
+        } else {
+          // STRATEGY 4: Try extracting JSON from anywhere in the string
+          const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
+          if (jsonMatch) {
+            try {
+              const extracted = JSON.parse(jsonMatch[0])
+              if (extracted && typeof extracted === 'object') {
+                parsedResponse = extracted
+                console.log('✅ JSON extraction succeeded')
+              }
+            } catch (extractError) {
+              // STRATEGY 5: Last resort - use parseLLMJson on extracted portion
+              const lastResort = parseLLMJson(jsonMatch[0], { attemptFix: true })
+              if (lastResort && typeof lastResort === 'object') {
+                parsedResponse = lastResort
+                console.log('✅ Last resort parsing succeeded')
+              } else {
+                console.log('ℹ️ All parsing strategies failed, keeping original response')
+              }
+            }
+          } else {
+            console.log('ℹ️ No JSON found in response, keeping as-is')
+          }
+        }
+      }
+    } catch (e) {
+      console.error('Error during JSON parsing:', e)
+      // Keep original response on any error
+    }
+  } else if (typeof reply === 'object' && reply !== null) {
+    // Already an object, use as-is
+    console.log('✅ Response already an object')
+  }
+
+  return parsedResponse
+}
@@ -10,9 +10,17 @@
  *
  * const response = await callAIAgent('Explain React hooks', '68cbe7e5db8dcfa96f0df85b')
  * console.log(response)
+ *
+ * // Show the answer as it is written
+ * const final = await streamAIAgent('Explain React hooks', '68cbe7e5db8dcfa96f0df85b', {
+ *   onText: text => setAnswer(prev => prev + text),
+ * })
  * ```
  */
 
+import type { Citation, QueryScope } from '@/types'
+import { readServerSentEvents } from '@/utils/sse'
+
 // Secure: Call through Next.js API route (API key is on server!)
 const API_ROUTE = '/api/agent'
 
@@ -30,10 +38,24 @@ export interface AIAgentResponse {
   user_id?: string
   session_id?: string
   timestamp?: string
+  /** Passages retrieved from the library for the question */
+  passages?: Citation[]
   error?: string
   details?: string
 }
 
+export interface AIAgentStreamOptions {
+  user_id?: string
+  session_id?: string
+  /** Ground the question in the library (see POST /api/agent) */
+  retrieve?: boolean
+  scope?: QueryScope
+  /** Called with each piece of the answer text as the agent writes it */
+  onText: (text: string) => void
+  /** Aborting stops the answer, up to the agent itself */
+  signal?: AbortSignal
+}
+
 /**
  * Generate random UUID for user_id and session_id
  */
@@ -111,6 +133,54 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * Call the AI Agent in streaming mode: the answer text arrives through
+ * `onText` while it is written, and the promise resolves with the same final
+ * payload as `callAIAgent` (citations, confidence, follow-ups...). Never rejects.
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options: AIAgentStreamOptions
+): Promise<AIAgentResponse> {
+  const { onText, signal, ...fields } = options
+  try {
+    const response = await fetch(API_ROUTE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message, agent_id, ...fields, stream: true }),
+      signal,
+    })
+
+    // Failures before the agent starts answering come back as plain JSON
+    if (!response.ok || !response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      return response.ok
+        ? errorData
+        : { success: false, error: errorData.error || `API returned status ${response.status}`, details: errorData.details }
+    }
+
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      if (event === 'delta') {
+        onText(JSON.parse(data).text ?? '')
+      } else if (event === 'done' || event === 'error') {
+        return JSON.parse(data)
+      }
+    }
+    return { success: false, error: 'The answer stream ended before the answer was complete' }
+  } catch (error) {
+    if (signal?.aborted) return { success: false, error: 'Stopped' }
+    console.error('AI Agent stream failed:', error)
+    return {
+      success: false,
+      error: 'Failed to call AI agent',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
 /**
  * Hook for using AI Agent in React components
  *
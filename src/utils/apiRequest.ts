@@ -0,0 +1,41 @@
+/**
+ * API Request Helper
+ *
+ * Shared `fetch` wrapper for the browser-side API clients. Like
+ * `callAIAgent`, it never throws - network failures and non-JSON bodies come
+ * back as `{ success: false, error }`.
+ */
+
+export interface ApiResult {
+  success: boolean
+  error?: string
+  details?: string
+}
+
+export async function apiRequest<T extends ApiResult>(url: string, init?: RequestInit): Promise<T> {
+  try {
+    const response = await fetch(url, init)
+    const data = await response.json().catch(() => ({
+      success: false,
+      error: `API returned status ${response.status}`,
+    }))
+    return data as T
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to reach ${url}`,
+      details: error instanceof Error ? error.message : String(error),
+    } as T
+  }
+}
+
+/**
+ * Shorthand for a JSON request body
+ */
+export function jsonBody(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }
+}
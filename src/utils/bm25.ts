@@ -0,0 +1,129 @@
+/**
+ * BM25 Full-Text Index
+ *
+ * Small in-memory Okapi BM25 implementation - no network, no native deps.
+ *
+ * @example
+ * ```ts
+ * import { buildBm25Index, searchBm25 } from '@/utils/bm25'
+ *
+ * const index = buildBm25Index([{ id: 'a', text: 'termination notice' }])
+ * const hits = searchBm25(index, 'notice', 5) // [{ id: 'a', score: 0.28 }]
+ * ```
+ */
+
+export interface Bm25Document {
+  id: string
+  text: string
+}
+
+export interface Bm25Hit {
+  id: string
+  score: number
+}
+
+export interface Bm25Index {
+  ids: string[]
+  /** term -> postings of [document index, term frequency] */
+  postings: Map<string, Array<[number, number]>>
+  lengths: number[]
+  averageLength: number
+  k1: number
+  b: number
+}
+
+export interface Bm25Options {
+  /** Term frequency saturation (default 1.2) */
+  k1?: number
+  /** Document length normalization (default 0.75) */
+  b?: number
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'then',
+  'there', 'these', 'this', 'to', 'was', 'were', 'will', 'with', 'what', 'which', 'who',
+])
+
+/**
+ * Lowercase, split on anything that is not a letter or digit, drop stopwords
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+}
+
+/**
+ * Build an index over a set of documents
+ */
+export function buildBm25Index(documents: Bm25Document[], options: Bm25Options = {}): Bm25Index {
+  const postings = new Map<string, Array<[number, number]>>()
+  const lengths: number[] = []
+
+  documents.forEach((document, index) => {
+    const tokens = tokenize(document.text)
+    lengths.push(tokens.length)
+
+    const frequencies = new Map<string, number>()
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1)
+    }
+    frequencies.forEach((frequency, term) => {
+      const list = postings.get(term) ?? []
+      list.push([index, frequency])
+      postings.set(term, list)
+    })
+  })
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0)
+
+  return {
+    ids: documents.map(document => document.id),
+    postings,
+    lengths,
+    averageLength: documents.length ? totalLength / documents.length : 0,
+    k1: options.k1 ?? 1.2,
+    b: options.b ?? 0.75,
+  }
+}
+
+/**
+ * Rank indexed documents against a free-text query, optionally only those
+ * `accept` lets through
+ * @returns Hits with a positive score, best first
+ */
+export function searchBm25(
+  index: Bm25Index,
+  query: string,
+  limit = 10,
+  accept?: (id: string) => boolean
+): Bm25Hit[] {
+  const terms = Array.from(new Set(tokenize(query)))
+  const total = index.ids.length
+  const scores = new Map<number, number>()
+
+  for (const term of terms) {
+    const list = index.postings.get(term)
+    if (!list) continue
+
+    // Lucene-style idf, never negative even for terms in most chunks
+    const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5))
+
+    for (const [docIndex, frequency] of list) {
+      const lengthRatio = index.averageLength ? index.lengths[docIndex] / index.averageLength : 1
+      const norm = frequency + index.k1 * (1 - index.b + index.b * lengthRatio)
+      const score = idf * ((frequency * (index.k1 + 1)) / norm)
+      scores.set(docIndex, (scores.get(docIndex) ?? 0) + score)
+    }
+  }
+
+  return Array.from(scores.entries())
+    .map(([docIndex, score]) => ({ id: index.ids[docIndex], score }))
+    .filter(hit => !accept || accept(hit.id))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
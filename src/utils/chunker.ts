@@ -0,0 +1,90 @@
+/**
+ * Text Chunker
+ *
+ * Splits extracted page text into overlapping chunks for retrieval.
+ * Chunks never cross a page boundary, so every chunk maps to exactly one
+ * `page_number` and its `start`/`end` offsets index into that page's text.
+ *
+ * @example
+ * ```ts
+ * import { chunkPages } from '@/utils/chunker'
+ *
+ * const chunks = chunkPages(document.id, pages, { chunkSize: 800, overlap: 150 })
+ * ```
+ */
+
+import type { DocumentChunk, PageText } from '@/types'
+
+export interface ChunkOptions {
+  /** Target chunk length in characters */
+  chunkSize?: number
+  /** Characters shared between consecutive chunks on the same page */
+  overlap?: number
+}
+
+const DEFAULT_CHUNK_SIZE = 1000
+const DEFAULT_OVERLAP = 200
+
+/**
+ * Move `index` back to the nearest whitespace so words are not cut in half.
+ * Gives up (returns `index`) if no whitespace is found after `floor`.
+ */
+function snapToWhitespace(text: string, index: number, floor: number): number {
+  if (index >= text.length) return text.length
+  for (let i = index; i > floor; i--) {
+    if (/\s/.test(text[i])) return i
+  }
+  return index
+}
+
+/**
+ * Split a single page into overlapping chunks
+ */
+export function chunkPage(
+  documentId: string,
+  page: PageText,
+  options: ChunkOptions = {}
+): DocumentChunk[] {
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE)
+  const overlap = Math.min(Math.max(0, options.overlap ?? DEFAULT_OVERLAP), chunkSize - 1)
+  const text = page.text
+  const chunks: DocumentChunk[] = []
+
+  let start = 0
+  while (start < text.length) {
+    // Skip leading whitespace so chunks start on a word
+    while (start < text.length && /\s/.test(text[start])) start++
+    if (start >= text.length) break
+
+    const end = snapToWhitespace(text, start + chunkSize, start + Math.floor(chunkSize / 2))
+
+    // Trim trailing whitespace but keep offsets exact
+    let textEnd = end
+    while (textEnd > start && /\s/.test(text[textEnd - 1])) textEnd--
+
+    chunks.push({
+      id: `${documentId}:${page.pageNumber}:${chunks.length}`,
+      documentId,
+      pageNumber: page.pageNumber,
+      start,
+      end: textEnd,
+      text: text.slice(start, textEnd),
+    })
+
+    if (end >= text.length) break
+    start = Math.max(start + 1, snapToWhitespace(text, end - overlap, start))
+  }
+
+  return chunks
+}
+
+/**
+ * Split every page of a document into overlapping chunks
+ */
+export function chunkPages(
+  documentId: string,
+  pages: PageText[],
+  options: ChunkOptions = {}
+): DocumentChunk[] {
+  return pages.flatMap(page => chunkPage(documentId, page, options))
+}
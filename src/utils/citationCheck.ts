@@ -0,0 +1,88 @@
+/**
+ * Citation Verification (server-side only)
+ *
+ * The agent's citations are claims: a document, a page and an excerpt. Each
+ * one is checked against the stored page text of that document (see
+ * `@/utils/passageMatch` for the fuzzy matching) and gets a
+ * `CitationVerification`:
+ * - verified: the excerpt is on the cited page
+ * - other_page: it is elsewhere in the document - `found_page` says where
+ * - unverifiable: no page contains it, or the document is not in the library
+ *
+ * @example
+ * ```ts
+ * import { verifyCitations } from '@/utils/citationCheck'
+ *
+ * const checked = await verifyCitations(response.citations)
+ * checked[0].verification // { status: 'other_page', found_page: 4, match_score: 0.93 }
+ * ```
+ */
+
+import type { Citation, CitationVerification, Document, PageText } from '@/types'
+import { getDocumentPages, listDocuments } from '@/utils/documentStore'
+import { passageCoverage } from '@/utils/passageMatch'
+
+/** Share of the excerpt that must be found on a page to count as quoted from it */
+const MIN_COVERAGE = 0.8
+
+function findCitedDocument(documents: Document[], citation: Citation): Document | undefined {
+  const name = String(citation.document_name ?? '').trim().toLowerCase()
+  return (
+    documents.find(document => document.id === citation.document_id) ??
+    (name ? documents.find(document => document.name.toLowerCase() === name) : undefined)
+  )
+}
+
+function verifyExcerpt(pages: PageText[], citation: Citation): CitationVerification {
+  const excerpt = String(citation.excerpt ?? '')
+  // LLM output: page numbers sometimes arrive as strings
+  const cited = pages.find(page => page.pageNumber === Number(citation.page_number))
+  const citedScore = cited ? passageCoverage(cited.text, excerpt) : 0
+  if (citedScore >= MIN_COVERAGE) {
+    return { status: 'verified', match_score: citedScore }
+  }
+
+  let best = { pageNumber: 0, score: citedScore }
+  for (const page of pages) {
+    if (page === cited) continue
+    const score = passageCoverage(page.text, excerpt)
+    if (score > best.score) best = { pageNumber: page.pageNumber, score }
+  }
+
+  return best.score >= MIN_COVERAGE
+    ? { status: 'other_page', found_page: best.pageNumber, match_score: best.score }
+    : { status: 'unverifiable', match_score: best.score }
+}
+
+/**
+ * Check every citation against the stored page text of its document.
+ * Citations naming a library document only by name also get its `document_id`.
+ */
+export async function verifyCitations(citations: Citation[]): Promise<Citation[]> {
+  if (!citations.length) return citations
+
+  const documents = await listDocuments()
+  const pagesById = new Map<string, Promise<PageText[]>>()
+
+  return Promise.all(
+    citations.map(async (citation): Promise<Citation> => {
+      if (!citation || typeof citation !== 'object') return citation
+
+      const document = findCitedDocument(documents, citation)
+      if (!document) {
+        return { ...citation, verification: { status: 'unverifiable', match_score: 0 } }
+      }
+
+      if (!pagesById.has(document.id)) {
+        pagesById.set(document.id, getDocumentPages(document.id))
+      }
+      const pages = await (pagesById.get(document.id) as Promise<PageText[]>)
+
+      return {
+        ...citation,
+        document_id: document.id,
+        verification: verifyExcerpt(pages, citation),
+      }
+    })
+  )
+}
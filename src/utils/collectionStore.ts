@@ -0,0 +1,84 @@
+/**
+ * Collection Store (server-side only)
+ *
+ * Collections exist implicitly through the `collectionPath` of the documents
+ * in them. This store adds the ones created by hand and still empty:
+ *
+ * ```
+ * <DOCUMENT_STORAGE_DIR>/collections.json   # string[] of collection paths
+ * ```
+ *
+ * Renaming or deleting a collection rewrites the paths of the documents
+ * inside it.
+ */
+
+import path from 'path'
+import { ancestorPaths, isInCollection, parentCollectionPath } from '@/utils/collections'
+import { listDocuments, updateDocument } from '@/utils/documentStore'
+import { STORAGE_DIR, readJsonFile, writeJsonFile } from '@/utils/storage'
+
+const COLLECTIONS_FILE = path.join(STORAGE_DIR, 'collections.json')
+
+async function readStoredPaths(): Promise<string[]> {
+  return (await readJsonFile<string[]>(COLLECTIONS_FILE)) ?? []
+}
+
+/**
+ * Every collection (stored or holding documents) and all their ancestors, sorted
+ */
+export async function listCollections(): Promise<string[]> {
+  const documents = await listDocuments()
+  const paths = new Set<string>()
+  for (const collection of [...(await readStoredPaths()), ...documents.map(document => document.collectionPath ?? '')]) {
+    ancestorPaths(collection).forEach(ancestor => paths.add(ancestor))
+  }
+  return Array.from(paths).sort()
+}
+
+/**
+ * Add a (possibly empty) collection; `collection` must be normalized
+ */
+export async function createCollection(collection: string): Promise<string[]> {
+  const stored = await readStoredPaths()
+  if (!stored.includes(collection)) {
+    await writeJsonFile(COLLECTIONS_FILE, [...stored, collection].sort(), true)
+  }
+  return listCollections()
+}
+
+/**
+ * Move a collection with everything inside it to a new path
+ * (a rename, or a move under another collection)
+ */
+export async function renameCollection(from: string, to: string): Promise<string[]> {
+  const rebase = (collection: string) => (isInCollection(collection, from) ? to + collection.slice(from.length) : collection)
+
+  const stored = await readStoredPaths()
+  await writeJsonFile(COLLECTIONS_FILE, Array.from(new Set([...stored.map(rebase), to])).sort(), true)
+
+  for (const document of await listDocuments()) {
+    if (document.collectionPath && isInCollection(document.collectionPath, from)) {
+      await updateDocument(document.id, { collectionPath: rebase(document.collectionPath) })
+    }
+  }
+  return listCollections()
+}
+
+/**
+ * Remove a collection and its sub-collections. The documents inside are
+ * kept and move up into the parent collection.
+ */
+export async function deleteCollection(collection: string): Promise<string[]> {
+  const parent = parentCollectionPath(collection)
+
+  // The parent stays, even if this collection was the only thing in it
+  const remaining = (await readStoredPaths()).filter(stored => !isInCollection(stored, collection))
+  await writeJsonFile(COLLECTIONS_FILE, Array.from(new Set([...remaining, parent].filter(Boolean))).sort(), true)
+
+  for (const document of await listDocuments()) {
+    if (document.collectionPath && isInCollection(document.collectionPath, collection)) {
+      await updateDocument(document.id, { collectionPath: parent })
+    }
+  }
+  return listCollections()
+}
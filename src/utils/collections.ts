@@ -0,0 +1,165 @@
+/**
+ * Collections and Tags
+ *
+ * A document belongs to at most one collection, identified by its path:
+ * '/'-separated segments such as `Reports/2024`, so collections nest.
+ * Documents uploaded from a folder keep that folder as their collection.
+ * Tags are free-form labels on top of that. Safe to import from client
+ * components.
+ *
+ * @example
+ * ```ts
+ * import { buildCollectionTree, collectionPathOf, normalizeCollectionPath } from '@/utils/collections'
+ *
+ * collectionPathOf('Reports/2024/q1.pdf')   // 'Reports/2024'
+ * normalizeCollectionPath(' a\\b//../c/ ') // 'a/b/c'
+ *
+ * const root = buildCollectionTree(['Reports/2024'], documents)
+ * root.children[0].stats // { files, pages, size } of Reports, sub-collections included
+ * ```
+ */
+
+import type { Document } from '@/types'
+
+/** Deeper folders are cut off at this depth */
+export const MAX_COLLECTION_DEPTH = 10
+
+const MAX_SEGMENT_LENGTH = 100
+
+const MAX_TAGS = 30
+const MAX_TAG_LENGTH = 50
+
+export interface CollectionStats {
+  files: number
+  pages: number
+  /** Bytes */
+  size: number
+}
+
+export interface CollectionNode {
+  /** '' for the library root */
+  path: string
+  name: string
+  children: CollectionNode[]
+  /** Documents directly in this collection */
+  documents: Document[]
+  /** Totals including every sub-collection */
+  stats: CollectionStats
+}
+
+/**
+ * Clean up a client-supplied path: either separator, no empty, `.` or `..`
+ * segments, trimmed and length-limited. Returns '' for "no collection".
+ */
+export function normalizeCollectionPath(path: string | null | undefined): string {
+  if (!path) return ''
+  return path
+    .split(/[\\/]+/)
+    .map(segment => segment.trim().slice(0, MAX_SEGMENT_LENGTH))
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .slice(0, MAX_COLLECTION_DEPTH)
+    .join('/')
+}
+
+/**
+ * The collection path of a file from its path relative to the upload root
+ */
+export function collectionPathOf(relativePath: string): string {
+  const segments = normalizeCollectionPath(relativePath).split('/')
+  return segments.slice(0, -1).join('/')
+}
+
+export function collectionName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+export function parentCollectionPath(path: string): string {
+  return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : ''
+}
+
+/**
+ * 'a/b/c' -> ['a', 'a/b', 'a/b/c']
+ */
+export function ancestorPaths(path: string): string[] {
+  const segments = path ? path.split('/') : []
+  return segments.map((_, i) => segments.slice(0, i + 1).join('/'))
+}
+
+/**
+ * Whether `path` is `collection` itself or inside it ('' contains everything)
+ */
+export function isInCollection(path: string | undefined, collection: string): boolean {
+  const own = path ?? ''
+  return !collection || own === collection || own.startsWith(`${collection}/`)
+}
+
+/**
+ * Trimmed, de-duplicated (case-insensitively) and length-limited tags
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return []
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const tag of tags) {
+    if (typeof tag !== 'string') continue
+    const cleaned = tag.trim().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH)
+    if (!cleaned || seen.has(cleaned.toLowerCase())) continue
+    seen.add(cleaned.toLowerCase())
+    result.push(cleaned)
+  }
+  return result.slice(0, MAX_TAGS)
+}
+
+/**
+ * Arrange documents into the nested collection tree. `paths` are collections
+ * that should exist even when empty; collections documents are in are added.
+ * Children are sorted by name.
+ */
+export function buildCollectionTree(paths: string[], documents: Document[]): CollectionNode {
+  const root: CollectionNode = { path: '', name: '', children: [], documents: [], stats: { files: 0, pages: 0, size: 0 } }
+  const nodes = new Map<string, CollectionNode>([['', root]])
+
+  const nodeFor = (path: string): CollectionNode => {
+    for (const ancestor of ancestorPaths(path)) {
+      if (nodes.has(ancestor)) continue
+      const node: CollectionNode = {
+        path: ancestor,
+        name: collectionName(ancestor),
+        children: [],
+        documents: [],
+        stats: { files: 0, pages: 0, size: 0 },
+      }
+      nodes.set(ancestor, node)
+      nodes.get(parentCollectionPath(ancestor))!.children.push(node)
+    }
+    return nodes.get(path)!
+  }
+
+  paths.forEach(path => nodeFor(normalizeCollectionPath(path)))
+
+  documents.forEach(document => {
+    const path = document.collectionPath ?? ''
+    nodeFor(path).documents.push(document)
+    for (const ancestor of ['', ...ancestorPaths(path)]) {
+      const { stats } = nodes.get(ancestor)!
+      stats.files += 1
+      stats.pages += document.pages
+      stats.size += document.size
+    }
+  })
+
+  nodes.forEach(node => node.children.sort((a, b) => a.name.localeCompare(b.name)))
+  return root
+}
+
+/**
+ * Find a node of the tree by path
+ */
+export function findCollection(root: CollectionNode, path: string): CollectionNode | null {
+  let node: CollectionNode | undefined = root
+  for (const ancestor of ancestorPaths(path)) {
+    node = node.children.find(child => child.path === ancestor)
+    if (!node) return null
+  }
+  return node
+}
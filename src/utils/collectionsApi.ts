@@ -0,0 +1,49 @@
+/**
+ * Collections API Client
+ *
+ * Browser-side wrappers for the `/api/collections` routes. Every call
+ * answers with the full, updated list of collection paths. Moving a single
+ * document between collections is `updateDocument` in `@/utils/documentsApi`.
+ *
+ * @example
+ * ```tsx
+ * import { createCollection } from '@/utils/collectionsApi'
+ *
+ * const result = await createCollection('Reports/2024')
+ * if (result.success) setCollections(result.collections)
+ * ```
+ */
+
+import { apiRequest, jsonBody, type ApiResult } from '@/utils/apiRequest'
+
+const API_ROUTE = '/api/collections'
+
+type CollectionsResult = ApiResult & { collections?: string[] }
+
+/**
+ * Every collection path, parents before children
+ */
+export function fetchCollections() {
+  return apiRequest<CollectionsResult>(API_ROUTE)
+}
+
+/**
+ * Create a (possibly nested) collection
+ */
+export function createCollection(path: string) {
+  return apiRequest<CollectionsResult>(API_ROUTE, jsonBody('POST', { path }))
+}
+
+/**
+ * Rename or move a collection, with its documents and sub-collections
+ */
+export function renameCollection(path: string, newPath: string) {
+  return apiRequest<CollectionsResult>(API_ROUTE, jsonBody('PATCH', { path, newPath }))
+}
+
+/**
+ * Delete a collection; its documents move up into the parent collection
+ */
+export function deleteCollection(path: string) {
+  return apiRequest<CollectionsResult>(`${API_ROUTE}?path=${encodeURIComponent(path)}`, { method: 'DELETE' })
+}
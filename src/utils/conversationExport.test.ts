@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import type { Conversation } from '@/types'
+import { exportConversation, parseConversationExport } from '@/utils/conversationExport'
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Notice periods',
+  sessionId: 'session-c1',
+  messages: [
+    { id: 'm1', type: 'user', content: 'What is the notice period?', timestamp: '2026-01-05T10:00:00.000Z' },
+    {
+      id: 'm2',
+      type: 'agent',
+      content: '30 days.',
+      response: {
+        answer: '30 days.',
+        citations: [
+          {
+            document_id: 'd1',
+            document_name: 'contract.pdf',
+            page_number: 2,
+            excerpt: 'Either party may terminate with 30 days notice.',
+            verification: { status: 'verified', match_score: 1 },
+          },
+        ],
+        confidence: 0.8,
+        follow_up_suggestions: ['What about payment terms?'],
+      },
+      timestamp: '2026-01-05T10:00:05.000Z',
+    },
+  ],
+  createdAt: '2026-01-05T10:00:00.000Z',
+  updatedAt: '2026-01-05T10:00:05.000Z',
+}
+
+/** A JSON export with the agent answer's response replaced */
+function exportWithResponse(response: unknown) {
+  const data = JSON.parse(exportConversation(conversation, 'json'))
+  data.conversation.messages[1].response = response
+  return data
+}
+
+describe('parseConversationExport', () => {
+  it('reads back a JSON export', () => {
+    const parsed = parseConversationExport(JSON.parse(exportConversation(conversation, 'json')))
+    expect(parsed?.messages).toEqual(conversation.messages)
+    expect(parsed?.title).toBe('Notice periods')
+  })
+
+  it('rejects files that are not conversation exports', () => {
+    expect(parseConversationExport({ messages: [] })).toBeNull()
+    expect(parseConversationExport({ ...exportWithResponse(null), version: 99 })).toBeNull()
+  })
+
+  it('drops answer details of the wrong type', () => {
+    const parsed = parseConversationExport(
+      exportWithResponse({
+        answer: 42,
+        citations: 'none',
+        confidence: 'high',
+        follow_up_suggestions: { first: 'Ask again' },
+        documents_referenced: ['contract.pdf', 7],
+      })
+    )
+    expect(parsed?.messages[1].response).toEqual({ documents_referenced: ['contract.pdf'] })
+  })
+
+  it('keeps only well-formed citations and fields', () => {
+    const parsed = parseConversationExport(
+      exportWithResponse({
+        citations: [
+          'contract.pdf',
+          null,
+          { document_id: 'd1', document_name: ['contract.pdf'], page_number: '3', excerpt: 'Net 45.' },
+          { document_id: 'd1', page_number: 'three', verification: { status: 'invented', match_score: 1 } },
+        ],
+        follow_up_suggestions: ['Late fees?', null],
+      })
+    )
+    expect(parsed?.messages[1].response).toEqual({
+      citations: [{ document_id: 'd1', page_number: 3, excerpt: 'Net 45.' }, { document_id: 'd1' }],
+      follow_up_suggestions: ['Late fees?'],
+    })
+  })
+
+  it('drops a verification whose status is not one of ours', () => {
+    const parsed = parseConversationExport(
+      exportWithResponse({
+        citations: ['constructor', 'toString', '__proto__'].map(status => ({
+          document_id: 'd1',
+          verification: { status, match_score: 1 },
+        })),
+      })
+    )
+    expect(parsed?.messages[1].response?.citations).toEqual([
+      { document_id: 'd1' },
+      { document_id: 'd1' },
+      { document_id: 'd1' },
+    ])
+  })
+
+  it('ignores a response that is not an object', () => {
+    const parsed = parseConversationExport(exportWithResponse(['30 days.']))
+    expect(parsed?.messages[1]).not.toHaveProperty('response')
+    expect(parsed?.messages[1].content).toBe('30 days.')
+  })
+})
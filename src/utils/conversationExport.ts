@@ -0,0 +1,396 @@
+/**
+ * Conversation Export
+ *
+ * Writes a conversation out for reports: every question and answer with its
+ * timestamps, the answer's confidence and its numbered citations (document,
+ * page, excerpt and whether the excerpt was found on that page), as
+ *
+ * - `markdown`: for pasting into documents and wikis
+ * - `json`: the conversation itself, which `parseConversationExport` reads
+ *   back (see `POST /api/conversations/import`)
+ * - `html`: a standalone page laid out for printing
+ *
+ * Times are written in UTC. Safe to import from client components.
+ *
+ * @example
+ * ```ts
+ * import { exportConversation } from '@/utils/conversationExport'
+ *
+ * const markdown = exportConversation(conversation, 'markdown', { documentNames })
+ * ```
+ */
+
+import type { AnswerVersion, ChatMessage, Citation, CitationStatus, Conversation, QueryScope, SearchResponse } from '@/types'
+import { parseQueryScope } from '@/utils/queryScope'
+
+export type ConversationExportFormat = 'markdown' | 'json' | 'html'
+
+export const CONVERSATION_EXPORT_FORMATS: Record<ConversationExportFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown; charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json; charset=utf-8' },
+  html: { label: 'print-ready HTML', extension: 'html', mimeType: 'text/html; charset=utf-8' },
+}
+
+/** Identifies our JSON exports; bumped when the shape changes incompatibly */
+const EXPORT_TYPE = 'document-search.conversation'
+const EXPORT_VERSION = 1
+
+export type ExportedConversation = Pick<Conversation, 'title' | 'scope' | 'messages' | 'createdAt' | 'updatedAt'>
+
+export interface ConversationExport {
+  type: typeof EXPORT_TYPE
+  version: number
+  exportedAt: string
+  conversation: ExportedConversation
+}
+
+export interface ConversationExportOptions {
+  /** Names for the document ids of question scopes */
+  documentNames?: Record<string, string>
+  /** Defaults to now */
+  exportedAt?: Date
+}
+
+const UNTITLED = 'Conversation'
+
+const VERIFICATION_LABELS = {
+  verified: 'verified',
+  other_page: 'found on another page',
+  unverifiable: 'not found in the document',
+}
+
+/** `2025-03-01 14:05 UTC` */
+function formatTime(timestamp: string | Date): string {
+  const date = new Date(timestamp)
+  return Number.isNaN(date.getTime()) ? String(timestamp) : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+}
+
+function scopeLabel(scope: QueryScope | undefined, documentNames: Record<string, string>): string | null {
+  const names = [
+    ...(scope?.collections ?? []),
+    ...(scope?.documentIds ?? []).map(id => documentNames[id] ?? 'a removed document'),
+  ]
+  return names.length ? names.join(', ') : null
+}
+
+function citationPage(citation: Citation): string {
+  const page = citation.page_number !== undefined ? `page ${citation.page_number}` : 'page unknown'
+  const { verification } = citation
+  if (!verification) return page
+  if (verification.status === 'other_page' && verification.found_page !== undefined) {
+    return `${page} (${VERIFICATION_LABELS.other_page}: page ${verification.found_page})`
+  }
+  return `${page} (${VERIFICATION_LABELS[verification.status]})`
+}
+
+/** Why an answer is incomplete, and which of several answers this is */
+function answerNotes(message: ChatMessage): string[] {
+  const notes: string[] = []
+  if (message.status === 'failed') notes.push(`The answer failed: ${message.error ?? 'unknown error'}`)
+  if (message.status === 'stopped') notes.push('Stopped before the answer was complete')
+  if (message.versions && message.versions.length > 1) {
+    notes.push(`Answer ${(message.versionIndex ?? 0) + 1} of ${message.versions.length}`)
+  }
+  return notes
+}
+
+function confidenceLabel(message: ChatMessage): string | null {
+  const confidence = message.response?.confidence
+  return typeof confidence === 'number' ? `${Math.round(confidence * 100)}%` : null
+}
+
+/**
+ * A file name for the export, from the conversation title
+ */
+export function conversationExportFileName(conversation: Pick<Conversation, 'title'>, format: ConversationExportFormat): string {
+  const slug = (conversation.title ?? UNTITLED)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+  return `${slug || 'conversation'}.${CONVERSATION_EXPORT_FORMATS[format].extension}`
+}
+
+function toMarkdown(conversation: Conversation, options: ConversationExportOptions): string {
+  const documentNames = options.documentNames ?? {}
+  const questions = conversation.messages.filter(message => message.type === 'user').length
+  const lines = [
+    `# ${conversation.title ?? UNTITLED}`,
+    '',
+    `Exported ${formatTime(options.exportedAt ?? new Date())} · ${questions} ${questions === 1 ? 'question' : 'questions'}`,
+  ]
+
+  let number = 0
+  conversation.messages.forEach(message => {
+    if (message.type === 'user') {
+      number += 1
+      const scope = scopeLabel(message.scope, documentNames)
+      lines.push('', '---', '', `## Q${number}. ${message.content.replace(/\s+/g, ' ')}`, '')
+      lines.push(`*Asked ${formatTime(message.timestamp)}${scope ? ` · limited to ${scope}` : ''}*`)
+      return
+    }
+
+    if (message.content) lines.push('', message.content)
+    const confidence = confidenceLabel(message)
+    const citations = message.response?.citations ?? []
+    if (confidence) lines.push('', `**Confidence:** ${confidence}`)
+    if (citations.length) {
+      lines.push('', '**Sources**', '')
+      citations.forEach((citation, index) => {
+        lines.push(`${index + 1}. ${citation.document_name ?? 'Unknown document'}, ${citationPage(citation)}`)
+        if (citation.excerpt) lines.push(`   > ${citation.excerpt.replace(/\s+/g, ' ').trim()}`)
+      })
+    }
+    lines.push('', `*${['Answered ' + formatTime(message.timestamp), ...answerNotes(message)].join(' · ')}*`)
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #111; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.55; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  .meta { color: #555; font-size: 0.85rem; }
+  .turn { border-top: 1px solid #ccc; padding-top: 1rem; margin-top: 1.5rem; break-inside: avoid; }
+  .question { font-weight: bold; font-size: 1.05rem; margin: 0; }
+  .answer { white-space: pre-wrap; }
+  .sources { font-size: 0.9rem; padding-left: 1.5rem; }
+  .sources blockquote { margin: 0.25rem 0 0.5rem; padding-left: 0.75rem; border-left: 3px solid #ccc; color: #333; font-style: italic; }
+  .hint { background: #f4f4f5; padding: 0.5rem 0.75rem; border-radius: 4px; font-size: 0.85rem; font-family: sans-serif; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .hint { display: none; }
+    a { color: inherit; text-decoration: none; }
+  }
+  @page { margin: 2cm; }
+`
+
+function toHtml(conversation: Conversation, options: ConversationExportOptions): string {
+  const documentNames = options.documentNames ?? {}
+  const title = escapeHtml(conversation.title ?? UNTITLED)
+  const questions = conversation.messages.filter(message => message.type === 'user').length
+  const body: string[] = []
+
+  let turn: string[] | null = null
+  const closeTurn = () => {
+    if (turn) body.push(`<section class="turn">\n${turn.join('\n')}\n</section>`)
+    turn = null
+  }
+
+  let number = 0
+  conversation.messages.forEach(message => {
+    if (message.type === 'user') {
+      closeTurn()
+      number += 1
+      const scope = scopeLabel(message.scope, documentNames)
+      turn = [
+        `<p class="question">Q${number}. ${escapeHtml(message.content)}</p>`,
+        `<p class="meta">Asked ${formatTime(message.timestamp)}${scope ? ` · limited to ${escapeHtml(scope)}` : ''}</p>`,
+      ]
+      return
+    }
+
+    const parts = message.content ? [`<p class="answer">${escapeHtml(message.content)}</p>`] : []
+    const confidence = confidenceLabel(message)
+    const citations = message.response?.citations ?? []
+    if (confidence) parts.push(`<p><strong>Confidence:</strong> ${confidence}</p>`)
+    if (citations.length) {
+      parts.push('<p><strong>Sources</strong></p>', '<ol class="sources">')
+      citations.forEach(citation => {
+        const excerpt = citation.excerpt ? `<blockquote>${escapeHtml(citation.excerpt.replace(/\s+/g, ' ').trim())}</blockquote>` : ''
+        parts.push(`<li>${escapeHtml(citation.document_name ?? 'Unknown document')}, ${escapeHtml(citationPage(citation))}${excerpt}</li>`)
+      })
+      parts.push('</ol>')
+    }
+    parts.push(`<p class="meta">${escapeHtml(['Answered ' + formatTime(message.timestamp), ...answerNotes(message)].join(' · '))}</p>`)
+    ;(turn ??= []).push(...parts)
+  })
+  closeTurn()
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<p class="hint">Use your browser's Print command to print this conversation or save it as a PDF.</p>
+<h1>${title}</h1>
+<p class="meta">Exported ${formatTime(options.exportedAt ?? new Date())} · ${questions} ${questions === 1 ? 'question' : 'questions'}</p>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * The conversation as a file in the given format
+ */
+export function exportConversation(
+  conversation: Conversation,
+  format: ConversationExportFormat,
+  options: ConversationExportOptions = {}
+): string {
+  if (format === 'markdown') return toMarkdown(conversation, options)
+  if (format === 'html') return toHtml(conversation, options)
+
+  const data: ConversationExport = {
+    type: EXPORT_TYPE,
+    version: EXPORT_VERSION,
+    exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+    conversation: {
+      title: conversation.title,
+      scope: conversation.scope,
+      messages: conversation.messages,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    },
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function strings(list: unknown[]): string[] {
+  return list.filter((item): item is string => typeof item === 'string')
+}
+
+function parseCitation(value: unknown): Citation | null {
+  if (!isRecord(value)) return null
+  const { document_id, document_name, page_number, excerpt, relevance_score, verification } = value
+  // Agents sometimes write page numbers as strings
+  const page = typeof page_number === 'number' || typeof page_number === 'string' ? Number(page_number) : NaN
+
+  const citation: Citation = {
+    ...(typeof document_id === 'string' && { document_id }),
+    ...(typeof document_name === 'string' && { document_name }),
+    ...(Number.isInteger(page) && page > 0 && { page_number: page }),
+    ...(typeof excerpt === 'string' && { excerpt }),
+    ...(isNumber(relevance_score) && { relevance_score }),
+  }
+  if (isRecord(verification)) {
+    const { status, found_page, match_score } = verification
+    if (typeof status === 'string' && Object.hasOwn(VERIFICATION_LABELS, status) && isNumber(match_score)) {
+      citation.verification = {
+        status: status as CitationStatus,
+        ...(isNumber(found_page) && { found_page }),
+        match_score,
+      }
+    }
+  }
+  return citation
+}
+
+/**
+ * The parts of a stored agent response that have the expected types; a
+ * hand-edited file with e.g. `citations: "none"` would otherwise break the chat
+ */
+function parseResponse(value: unknown): SearchResponse | null {
+  if (!isRecord(value)) return null
+  const { answer, citations, documents_referenced, confidence, follow_up_suggestions, metadata } = value
+
+  const response: SearchResponse = {
+    ...(typeof answer === 'string' && { answer }),
+    ...(Array.isArray(citations) && {
+      citations: citations.map(parseCitation).filter((citation): citation is Citation => citation !== null),
+    }),
+    ...(Array.isArray(documents_referenced) && { documents_referenced: strings(documents_referenced) }),
+    ...(isNumber(confidence) && { confidence }),
+    ...(Array.isArray(follow_up_suggestions) && { follow_up_suggestions: strings(follow_up_suggestions) }),
+  }
+  if (isRecord(metadata)) {
+    const { search_queries_used, total_passages_retrieved, processing_time } = metadata
+    response.metadata = {
+      ...(Array.isArray(search_queries_used) && { search_queries_used: strings(search_queries_used) }),
+      ...(isNumber(total_passages_retrieved) && { total_passages_retrieved }),
+      ...(typeof processing_time === 'string' && { processing_time }),
+    }
+  }
+  return response
+}
+
+function parseVersion(value: unknown): AnswerVersion | null {
+  if (!value || typeof value !== 'object') return null
+  const { content, response, status, error, timestamp } = value as Record<string, unknown>
+  if (typeof content !== 'string' || typeof timestamp !== 'string') return null
+  const parsedResponse = parseResponse(response)
+
+  return {
+    content,
+    ...(parsedResponse && { response: parsedResponse }),
+    ...((status === 'failed' || status === 'stopped') && { status }),
+    ...(typeof error === 'string' && { error }),
+    timestamp,
+  }
+}
+
+function parseMessage(value: unknown, index: number): ChatMessage | null {
+  const answer = parseVersion(value)
+  if (!answer) return null
+  const { id, type, scope, versions, versionIndex } = value as Record<string, unknown>
+  if (type !== 'user' && type !== 'agent') return null
+
+  const parsedScope = parseQueryScope(scope)
+  const parsedVersions = Array.isArray(versions) ? versions.map(parseVersion) : []
+  const hasVersions =
+    type === 'agent' &&
+    parsedVersions.length > 1 &&
+    parsedVersions.every(version => version !== null) &&
+    typeof versionIndex === 'number' &&
+    Number.isInteger(versionIndex) &&
+    versionIndex >= 0 &&
+    versionIndex < parsedVersions.length
+
+  return {
+    id: typeof id === 'string' && id ? id : `msg-imported-${index}`,
+    type,
+    ...answer,
+    ...(parsedScope && { scope: parsedScope }),
+    ...(hasVersions && { versions: parsedVersions as AnswerVersion[], versionIndex }),
+  }
+}
+
+/**
+ * Read back a JSON export. Answer details (citations, follow-ups...) of the
+ * wrong type are dropped rather than rejecting the whole file.
+ * @returns The exported conversation, or null if the value is not a
+ *   conversation export (or one from a newer version)
+ */
+export function parseConversationExport(value: unknown): ExportedConversation | null {
+  if (!value || typeof value !== 'object') return null
+  const { type, version, conversation } = value as Record<string, unknown>
+  if (type !== EXPORT_TYPE || typeof version !== 'number' || version > EXPORT_VERSION) return null
+  if (!conversation || typeof conversation !== 'object') return null
+
+  const { title, scope, messages, createdAt, updatedAt } = conversation as Record<string, unknown>
+  if (!Array.isArray(messages)) return null
+  const parsed = messages.map(parseMessage)
+  if (parsed.some(message => message === null)) return null
+
+  const now = new Date().toISOString()
+  const parsedScope = parseQueryScope(scope)
+  return {
+    ...(typeof title === 'string' && title.trim() && { title: title.trim() }),
+    ...(parsedScope && { scope: parsedScope }),
+    messages: parsed as ChatMessage[],
+    createdAt: typeof createdAt === 'string' ? createdAt : now,
+    updatedAt: typeof updatedAt === 'string' ? updatedAt : now,
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import type { ChatMessage } from '@/types'
+import { withTempStorage } from '@/test/tempStorage'
+
+const modules = withTempStorage(async () => ({ store: await import('@/utils/conversationStore') }))
+
+const question: ChatMessage = {
+  id: 'm1',
+  type: 'user',
+  content: 'What is the notice period?',
+  timestamp: '2026-01-05T10:00:00.000Z',
+}
+
+describe('conversation writes', () => {
+  it('keeps a rename that lands while the messages are saved', async () => {
+    const { id } = await modules.store.createConversation()
+
+    await Promise.all([
+      modules.store.saveConversationMessages(id, [question]),
+      modules.store.updateConversation(id, { title: 'Notice periods', pinned: true }),
+    ])
+
+    const saved = await modules.store.getConversation(id)
+    expect(saved?.messages).toEqual([question])
+    expect(saved?.title).toBe('Notice periods')
+    expect(saved?.pinned).toBe(true)
+  })
+
+  it('keeps every change of a burst of updates', async () => {
+    const { id } = await modules.store.createConversation()
+
+    await Promise.all([
+      modules.store.updateConversation(id, { pinned: true }),
+      modules.store.updateConversation(id, { scope: { collections: ['Contracts'] } }),
+      modules.store.updateConversation(id, { title: 'Contracts' }),
+    ])
+
+    expect(await modules.store.getConversation(id)).toMatchObject({
+      pinned: true,
+      scope: { collections: ['Contracts'] },
+      title: 'Contracts',
+    })
+  })
+
+  it('does not bring back a conversation deleted while it was being saved', async () => {
+    const { id } = await modules.store.createConversation()
+
+    const [, deleted] = await Promise.all([
+      modules.store.saveConversationMessages(id, [question]),
+      modules.store.deleteConversation(id),
+    ])
+
+    expect(deleted).toBe(true)
+    expect(await modules.store.getConversation(id)).toBeNull()
+  })
+})
@@ -0,0 +1,196 @@
+/**
+ * Conversation Store (server-side only)
+ *
+ * Keeps chat conversations on the local filesystem, one JSON file each:
+ *
+ * ```
+ * <DOCUMENT_STORAGE_DIR>/conversations/<id>.json
+ * ```
+ *
+ * Each conversation has its own agent session id, sent with every turn so
+ * follow-up questions are answered in context, and its own document scope.
+ * Conversations are titled after their first question until renamed.
+ *
+ * Changes to one conversation are applied one at a time, so saving the
+ * messages of a turn and renaming or pinning it at the same moment both stick.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import type { ChatMessage, Conversation, QueryScope } from '@/types'
+import { STORAGE_DIR, readDirOrEmpty, readJsonFile, withLock, writeJsonFile } from '@/utils/storage'
+import { citedDocumentIds, type CitationCounts } from '@/utils/documentFilter'
+import { isScopeEmpty } from '@/utils/queryScope'
+import type { ExportedConversation } from '@/utils/conversationExport'
+
+const CONVERSATIONS_DIR = path.join(STORAGE_DIR, 'conversations')
+
+const MAX_TITLE_LENGTH = 60
+
+/**
+ * Same rule as document ids: nothing that can escape the conversations dir
+ */
+export function isValidConversationId(id: string): boolean {
+  return /^[\w-]+$/.test(id)
+}
+
+function conversationFile(id: string): string {
+  if (!isValidConversationId(id)) {
+    throw new Error(`Invalid conversation id: ${id}`)
+  }
+  return path.join(CONVERSATIONS_DIR, `${id}.json`)
+}
+
+/**
+ * Title an untitled conversation after its first question, and give one
+ * stored before sessions existed a session id (derived from its id, so it is
+ * the same on every load)
+ */
+function withDefaults(conversation: Conversation): Conversation {
+  if (conversation.sessionId && conversation.title) return conversation
+  const firstQuestion = conversation.messages.find(message => message.type === 'user')?.content
+  return {
+    ...conversation,
+    ...(!conversation.title && firstQuestion?.trim() && { title: conversationTitle(firstQuestion) }),
+    sessionId: conversation.sessionId || `session-${conversation.id}`,
+  }
+}
+
+/**
+ * A title for a conversation that starts with this question: its first line,
+ * cut at a word boundary
+ */
+function conversationTitle(question: string): string {
+  const line = question.trim().split('\n')[0].replace(/\s+/g, ' ')
+  if (line.length <= MAX_TITLE_LENGTH) return line
+  const cut = line.slice(0, MAX_TITLE_LENGTH - 1)
+  const wordEnd = cut.lastIndexOf(' ')
+  return `${(wordEnd > MAX_TITLE_LENGTH / 2 ? cut.slice(0, wordEnd) : cut).replace(/[\s,;:.-]+$/, '')}…`
+}
+
+/**
+ * Start a new, empty conversation
+ */
+export async function createConversation(scope?: QueryScope): Promise<Conversation> {
+  const now = new Date().toISOString()
+  const id = randomUUID()
+  const conversation: Conversation = {
+    id,
+    sessionId: `session-${id}`,
+    ...(!isScopeEmpty(scope) && { scope }),
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+  await writeJsonFile(conversationFile(conversation.id), conversation)
+  return conversation
+}
+
+/**
+ * Store a conversation read from an export as a new one, with a new id and
+ * agent session (the agent does not know the imported turns)
+ */
+export async function importConversation(exported: ExportedConversation): Promise<Conversation> {
+  const id = randomUUID()
+  const conversation = withDefaults({
+    ...exported,
+    id,
+    sessionId: `session-${id}`,
+    updatedAt: new Date().toISOString(),
+  })
+  if (isScopeEmpty(conversation.scope)) delete conversation.scope
+  await writeJsonFile(conversationFile(id), conversation)
+  return conversation
+}
+
+/**
+ * Load a conversation, or null if it does not exist
+ */
+export async function getConversation(id: string): Promise<Conversation | null> {
+  const conversation = await readJsonFile<Conversation>(conversationFile(id))
+  return conversation && withDefaults(conversation)
+}
+
+/**
+ * Every conversation, most recently updated first
+ */
+export async function listConversations(): Promise<Conversation[]> {
+  const files = (await readDirOrEmpty(CONVERSATIONS_DIR)).filter(file => file.endsWith('.json'))
+  const conversations = await Promise.all(
+    files.map(file => readJsonFile<Conversation>(path.join(CONVERSATIONS_DIR, file)))
+  )
+  return conversations
+    .filter((conversation): conversation is Conversation => conversation !== null)
+    .map(withDefaults)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Replace the messages of a conversation, titling it after its first
+ * question if it has no title yet
+ * @returns The updated conversation, or null if it does not exist
+ */
+export async function saveConversationMessages(id: string, messages: ChatMessage[]): Promise<Conversation | null> {
+  return withLock(`conversations/${id}`, async () => {
+    const conversation = await getConversation(id)
+    if (!conversation) return null
+
+    const updated = withDefaults({
+      ...conversation,
+      messages,
+      updatedAt: new Date().toISOString(),
+    })
+    await writeJsonFile(conversationFile(id), updated)
+    return updated
+  })
+}
+
+/**
+ * Rename, pin / unpin or re-scope a conversation (an empty scope removes it).
+ * Does not count as activity: `updatedAt` is left alone.
+ * @returns The updated conversation, or null if it does not exist
+ */
+export async function updateConversation(
+  id: string,
+  changes: Partial<Pick<Conversation, 'title' | 'pinned' | 'scope'>>
+): Promise<Conversation | null> {
+  return withLock(`conversations/${id}`, async () => {
+    const conversation = await getConversation(id)
+    if (!conversation) return null
+
+    const updated: Conversation = { ...conversation, ...changes }
+    if (!updated.pinned) delete updated.pinned
+    if (isScopeEmpty(updated.scope)) delete updated.scope
+
+    await writeJsonFile(conversationFile(id), updated)
+    return updated
+  })
+}
+
+/**
+ * Delete a conversation for good
+ * @returns false if it does not exist
+ */
+export async function deleteConversation(id: string): Promise<boolean> {
+  return withLock(`conversations/${id}`, async () => {
+    if (!(await getConversation(id))) return false
+    await fs.rm(conversationFile(id), { force: true })
+    return true
+  })
+}
+
+/**
+ * How many answers, across all conversations, cited each document
+ */
+export async function countDocumentCitations(): Promise<CitationCounts> {
+  const counts: CitationCounts = {}
+  for (const conversation of await listConversations()) {
+    conversation.messages.forEach(message => {
+      citedDocumentIds(message).forEach(id => {
+        counts[id] = (counts[id] ?? 0) + 1
+      })
+    })
+  }
+  return counts
+}
@@ -0,0 +1,77 @@
+/**
+ * Conversations API Client
+ *
+ * Browser-side wrappers for the `/api/conversations` routes.
+ *
+ * @example
+ * ```tsx
+ * import { createConversation, saveConversationMessages } from '@/utils/conversationsApi'
+ *
+ * const { conversation } = await createConversation()
+ * await saveConversationMessages(conversation.id, messages)
+ * ```
+ */
+
+import type { ChatMessage, Conversation, QueryScope } from '@/types'
+import { apiRequest, jsonBody, type ApiResult } from '@/utils/apiRequest'
+import type { ConversationExportFormat } from '@/utils/conversationExport'
+
+const API_ROUTE = '/api/conversations'
+
+type ConversationResult = ApiResult & { conversation?: Conversation }
+
+/**
+ * Every stored conversation, most recently updated first
+ */
+export function fetchConversations() {
+  return apiRequest<ApiResult & { conversations?: Conversation[] }>(API_ROUTE)
+}
+
+/**
+ * Load one conversation with all of its messages
+ */
+export function fetchConversation(id: string) {
+  return apiRequest<ConversationResult>(`${API_ROUTE}/${encodeURIComponent(id)}`)
+}
+
+/**
+ * Start a new, empty conversation, optionally limited to some documents
+ */
+export function createConversation(scope?: QueryScope) {
+  return apiRequest<ConversationResult>(API_ROUTE, jsonBody('POST', { scope }))
+}
+
+/**
+ * Replace the stored messages of a conversation
+ */
+export function saveConversationMessages(id: string, messages: ChatMessage[]) {
+  return apiRequest<ConversationResult>(`${API_ROUTE}/${encodeURIComponent(id)}`, jsonBody('PUT', { messages }))
+}
+
+/**
+ * Rename, pin / unpin or re-scope a conversation
+ */
+export function updateConversation(id: string, changes: Partial<Pick<Conversation, 'title' | 'pinned' | 'scope'>>) {
+  return apiRequest<ConversationResult>(`${API_ROUTE}/${encodeURIComponent(id)}`, jsonBody('PATCH', changes))
+}
+
+/**
+ * Delete a conversation for good
+ */
+export function deleteConversation(id: string) {
+  return apiRequest<ApiResult>(`${API_ROUTE}/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+/**
+ * Where to download a conversation as Markdown, JSON or a printable page
+ */
+export function conversationExportUrl(id: string, format: ConversationExportFormat) {
+  return `${API_ROUTE}/${encodeURIComponent(id)}/export?format=${format}`
+}
+
+/**
+ * Store the contents of a JSON export as a new conversation
+ */
+export function importConversation(data: unknown) {
+  return apiRequest<ConversationResult>(`${API_ROUTE}/import`, jsonBody('POST', data))
+}
@@ -0,0 +1,33 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import type { Document } from '@/types'
+import { matchesDocumentFilter } from '@/utils/documentFilter'
+
+function uploadedAt(uploadDate: string): Document {
+  return { id: uploadDate, name: 'report.pdf', format: 'pdf', size: 1, pages: 1, uploadDate }
+}
+
+beforeAll(() => {
+  // UTC-5 in January: local midnight is 05:00 UTC
+  vi.stubEnv('TZ', 'America/New_York')
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('matchesDocumentFilter upload dates', () => {
+  const filter = { uploadedFrom: '2026-01-10', uploadedTo: '2026-01-10' }
+
+  it('counts an upload on the local day it happened', () => {
+    // 23:30 on Jan 10 in New York, already Jan 11 in UTC
+    expect(matchesDocumentFilter(uploadedAt('2026-01-11T04:30:00.000Z'), filter)).toBe(true)
+    // 21:00 on Jan 9 in New York, Jan 10 in UTC
+    expect(matchesDocumentFilter(uploadedAt('2026-01-10T02:00:00.000Z'), filter)).toBe(false)
+  })
+
+  it('includes both bounds in full', () => {
+    expect(matchesDocumentFilter(uploadedAt('2026-01-10T05:00:00.000Z'), filter)).toBe(true)
+    expect(matchesDocumentFilter(uploadedAt('2026-01-11T04:59:59.999Z'), filter)).toBe(true)
+    expect(matchesDocumentFilter(uploadedAt('2026-01-11T05:00:00.000Z'), filter)).toBe(false)
+  })
+})
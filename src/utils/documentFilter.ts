@@ -0,0 +1,224 @@
+/**
+ * Document Filter
+ *
+ * Matches documents against a library search: free text over the file name,
+ * tags, summary topics and embedded metadata (title, author, subject,
+ * keywords, bookmark titles), plus exact author / keyword / tag filters, file
+ * type and collection facets, and creation / upload date ranges. Also sorts
+ * the results. Shared by `GET /api/documents` and the sidebar, so both filter
+ * the same way, and the sidebar keeps its filter and sort in the page URL
+ * with the same parameters.
+ * Safe to import from client components.
+ *
+ * @example
+ * ```ts
+ * import { matchesDocumentFilter, sortDocuments } from '@/utils/documentFilter'
+ *
+ * const matches = documents.filter(doc => matchesDocumentFilter(doc, { q: 'pump', format: 'pdf' }))
+ * sortDocuments(matches, { by: 'pages', order: 'desc' })
+ * ```
+ */
+
+import type { ChatMessage, Document, OutlineItem } from '@/types'
+import { isInCollection } from '@/utils/collections'
+
+export interface DocumentFilter {
+  /** Free text; every word must appear somewhere in the document's fields */
+  q?: string
+  author?: string
+  keyword?: string
+  tag?: string
+  /** A `DocumentFormat` */
+  format?: string
+  /** Collection path; documents in its sub-collections match too */
+  collection?: string
+  /** Embedded creation date range, inclusive, `YYYY-MM-DD` */
+  createdFrom?: string
+  createdTo?: string
+  /** Upload date range in local days, inclusive, `YYYY-MM-DD` */
+  uploadedFrom?: string
+  uploadedTo?: string
+}
+
+export const DOCUMENT_FILTER_PARAMS: Array<keyof DocumentFilter> = [
+  'q',
+  'author',
+  'keyword',
+  'tag',
+  'format',
+  'collection',
+  'createdFrom',
+  'createdTo',
+  'uploadedFrom',
+  'uploadedTo',
+]
+
+export type DocumentSortKey = 'name' | 'uploaded' | 'size' | 'pages' | 'cited'
+
+export interface DocumentSort {
+  by: DocumentSortKey
+  order: 'asc' | 'desc'
+}
+
+export const DOCUMENT_SORT_KEYS: DocumentSortKey[] = ['name', 'uploaded', 'size', 'pages', 'cited']
+
+/** Newest upload first, the order documents are stored in */
+export const DEFAULT_DOCUMENT_SORT: DocumentSort = { by: 'uploaded', order: 'desc' }
+
+/** Times each document was cited, by document id */
+export type CitationCounts = Record<string, number>
+
+function outlineTitles(items: OutlineItem[] = []): string[] {
+  return items.flatMap(item => [item.title, ...outlineTitles(item.children)])
+}
+
+/**
+ * Everything free-text search looks at, lowercased
+ */
+export function documentSearchText(document: Document): string {
+  const { metadata } = document
+  return [
+    document.name,
+    document.collectionPath,
+    ...(document.tags ?? []),
+    metadata?.title,
+    metadata?.author,
+    metadata?.subject,
+    ...(metadata?.keywords ?? []),
+    ...outlineTitles(document.outline),
+    ...(document.summary?.topics ?? []),
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase()
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Authors are stored as one string ('Ada Smith, Bo Lee'); match any of them
+ */
+export function documentAuthors(document: Document): string[] {
+  return (document.metadata?.author ?? '').split(/[,;]/).map(author => author.trim()).filter(Boolean)
+}
+
+/**
+ * When a `YYYY-MM-DD` day (plus `offsetDays`) starts in the local time zone -
+ * the days the date picker shows
+ */
+function localDayStart(day: string, offsetDays = 0): number {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date + offsetDays).getTime()
+}
+
+export function matchesDocumentFilter(document: Document, filter: DocumentFilter): boolean {
+  const words = filter.q?.toLowerCase().split(/\s+/).filter(Boolean) ?? []
+  if (words.length) {
+    const text = documentSearchText(document)
+    if (!words.every(word => text.includes(word))) return false
+  }
+
+  if (filter.author && !documentAuthors(document).some(author => sameText(author, filter.author!))) {
+    return false
+  }
+
+  if (filter.keyword && !(document.metadata?.keywords ?? []).some(keyword => sameText(keyword, filter.keyword!))) {
+    return false
+  }
+
+  if (filter.tag && !(document.tags ?? []).some(tag => sameText(tag, filter.tag!))) {
+    return false
+  }
+
+  if (filter.format && (document.format ?? 'pdf') !== filter.format) return false
+
+  if (filter.collection && !isInCollection(document.collectionPath, filter.collection)) return false
+
+  if (filter.createdFrom || filter.createdTo) {
+    const created = document.metadata?.createdAt?.slice(0, 10)
+    if (!created) return false
+    if (filter.createdFrom && created < filter.createdFrom) return false
+    if (filter.createdTo && created > filter.createdTo) return false
+  }
+
+  if (filter.uploadedFrom || filter.uploadedTo) {
+    const uploaded = Date.parse(document.uploadDate)
+    if (filter.uploadedFrom && uploaded < localDayStart(filter.uploadedFrom)) return false
+    if (filter.uploadedTo && uploaded >= localDayStart(filter.uploadedTo, 1)) return false
+  }
+
+  return true
+}
+
+/**
+ * Documents an answer cited, each once however many excerpts came from it
+ */
+export function citedDocumentIds(message: ChatMessage): string[] {
+  const ids = (message.response?.citations ?? [])
+    .map(citation => citation?.document_id)
+    .filter((id): id is string => typeof id === 'string' && id !== '')
+  return Array.from(new Set(ids))
+}
+
+/**
+ * Sorted copy of a list of documents. Ties keep their current order, so
+ * equal documents stay newest first.
+ */
+export function sortDocuments(documents: Document[], sort: DocumentSort, citationCounts: CitationCounts = {}): Document[] {
+  const compare: Record<DocumentSortKey, (a: Document, b: Document) => number> = {
+    name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }),
+    uploaded: (a, b) => a.uploadDate.localeCompare(b.uploadDate),
+    size: (a, b) => a.size - b.size,
+    pages: (a, b) => a.pages - b.pages,
+    cited: (a, b) => (citationCounts[a.id] ?? 0) - (citationCounts[b.id] ?? 0),
+  }
+  const direction = sort.order === 'asc' ? 1 : -1
+  return [...documents].sort((a, b) => direction * compare[sort.by](a, b))
+}
+
+/**
+ * Read a filter from query parameters, ignoring empty ones
+ */
+export function parseDocumentFilter(params: URLSearchParams): DocumentFilter {
+  const filter: DocumentFilter = {}
+  DOCUMENT_FILTER_PARAMS.forEach(name => {
+    const value = params.get(name)?.trim()
+    if (value) filter[name] = value
+  })
+  return filter
+}
+
+/**
+ * Names sort A-Z by default, everything else largest / newest first
+ */
+export function defaultSortOrder(by: DocumentSortKey): DocumentSort['order'] {
+  return by === 'name' ? 'asc' : 'desc'
+}
+
+/**
+ * Read a sort from the `sort` and `order` query parameters
+ */
+export function parseDocumentSort(params: URLSearchParams): DocumentSort {
+  const by = params.get('sort') as DocumentSortKey | null
+  if (!by || !DOCUMENT_SORT_KEYS.includes(by)) return DEFAULT_DOCUMENT_SORT
+
+  const order = params.get('order')
+  return { by, order: order === 'asc' || order === 'desc' ? order : defaultSortOrder(by) }
+}
+
+/**
+ * Inverse of parseDocumentFilter (and parseDocumentSort, when a sort other
+ * than the default is given)
+ */
+export function documentFilterParams(filter: DocumentFilter, sort: DocumentSort = DEFAULT_DOCUMENT_SORT): URLSearchParams {
+  const params = new URLSearchParams()
+  DOCUMENT_FILTER_PARAMS.forEach(name => {
+    const value = filter[name]?.trim()
+    if (value) params.set(name, value)
+  })
+  if (sort.by !== DEFAULT_DOCUMENT_SORT.by || sort.order !== DEFAULT_DOCUMENT_SORT.order) {
+    params.set('sort', sort.by)
+    params.set('order', sort.order)
+  }
+  return params
+}
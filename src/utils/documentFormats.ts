@@ -0,0 +1,81 @@
+/**
+ * Supported Document Formats
+ *
+ * Shared by the upload UI (which files to accept) and the ingestion route
+ * (which extractor to run). Safe to import from client components.
+ *
+ * @example
+ * ```ts
+ * import { detectDocumentFormat, DOCUMENT_FORMATS } from '@/utils/documentFormats'
+ *
+ * detectDocumentFormat('notes.md') // 'markdown'
+ * DOCUMENT_FORMATS.markdown.label  // 'MD'
+ * ```
+ */
+
+import type { DocumentFormat } from '@/types'
+
+export type { DocumentFormat }
+
+export interface DocumentFormatInfo {
+  /** Short label for file-type badges */
+  label: string
+  /** Lowercase extensions including the dot; the first is canonical */
+  extensions: string[]
+  mimeTypes: string[]
+}
+
+export const DOCUMENT_FORMATS: Record<DocumentFormat, DocumentFormatInfo> = {
+  pdf: {
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+  },
+  docx: {
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  markdown: {
+    label: 'MD',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+  },
+  text: {
+    label: 'TXT',
+    extensions: ['.txt', '.text'],
+    mimeTypes: ['text/plain'],
+  },
+  html: {
+    label: 'HTML',
+    extensions: ['.html', '.htm', '.xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+  },
+  epub: {
+    label: 'EPUB',
+    extensions: ['.epub'],
+    mimeTypes: ['application/epub+zip'],
+  },
+}
+
+/** Value for `<input type="file" accept>` */
+export const ACCEPTED_FILE_TYPES = Object.values(DOCUMENT_FORMATS)
+  .flatMap(format => [...format.extensions, ...format.mimeTypes])
+  .join(',')
+
+/**
+ * Work out a file's format from its name, falling back to its MIME type
+ * (browsers often report an empty or generic type for .md and .epub)
+ * @returns The format, or null if it is not supported
+ */
+export function detectDocumentFormat(fileName: string, mimeType?: string): DocumentFormat | null {
+  const name = fileName.toLowerCase()
+  const formats = Object.entries(DOCUMENT_FORMATS) as Array<[DocumentFormat, DocumentFormatInfo]>
+
+  const byExtension = formats.find(([, info]) => info.extensions.some(extension => name.endsWith(extension)))
+  if (byExtension) return byExtension[0]
+
+  const type = mimeType?.split(';')[0].trim().toLowerCase()
+  const byMimeType = type ? formats.find(([, info]) => info.mimeTypes.includes(type)) : undefined
+  return byMimeType ? byMimeType[0] : null
+}
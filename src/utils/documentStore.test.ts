@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import type { Document } from '@/types'
+import { withTempStorage } from '@/test/tempStorage'
+
+const modules = withTempStorage(async () => ({ store: await import('@/utils/documentStore') }))
+
+/** A document with version 1 archived without page text, and version 2 current */
+async function addTwoVersions(id: string) {
+  const { store } = modules
+  const first: Document = {
+    id,
+    name: `${id}.txt`,
+    format: 'text',
+    size: 3,
+    pages: 1,
+    uploadDate: '2026-01-01T00:00:00.000Z',
+    version: 1,
+  }
+  await store.saveDocument(first, new TextEncoder().encode('one'))
+  await store.archiveCurrentVersion(first)
+
+  const second: Document = { ...first, uploadDate: '2026-01-02T00:00:00.000Z', version: 2 }
+  await store.saveDocument(second, new TextEncoder().encode('two'))
+  await store.saveDocumentText(id, [{ pageNumber: 1, text: 'two' }], [])
+}
+
+describe('restoreDocumentVersion', () => {
+  it('restores a version that was archived without page text', async () => {
+    await addTwoVersions('a')
+
+    expect(await modules.store.restoreDocumentVersion('a', 1)).toMatchObject({ version: 3, restoredFrom: 1 })
+    expect(await modules.store.getDocumentPages('a')).toEqual([])
+    const restored = await modules.store.getDocument('a')
+    expect(new TextDecoder().decode(await modules.store.readDocumentSource(restored!))).toBe('one')
+  })
+
+  it('leaves the document alone when the version lost its file', async () => {
+    await addTwoVersions('b')
+    await fs.rm(path.join(modules.store.documentDir('b'), 'versions', '1', 'source.txt'))
+    const version = (await modules.store.listDocumentVersions('b')).find(snapshot => snapshot.version === 1)!
+
+    expect(await modules.store.canRestoreVersion('b', version)).toBe(false)
+    expect(await modules.store.restoreDocumentVersion('b', 1)).toBeNull()
+    expect(await modules.store.getDocument('b')).toMatchObject({ version: 2 })
+    expect(await modules.store.getDocumentPages('b')).toEqual([{ pageNumber: 1, text: 'two' }])
+  })
+})
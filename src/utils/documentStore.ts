@@ -0,0 +1,266 @@
+/**
+ * Document Store (server-side only)
+ *
+ * Keeps uploaded files and their `Document` records on the local filesystem:
+ *
+ * ```
+ * <DOCUMENT_STORAGE_DIR>/documents/<id>/
+ * ├── document.json   # Document record
+ * ├── pages.json      # extracted text per page
+ * ├── chunks.json     # overlapping retrieval chunks
+ * ├── source.<ext>    # original upload (.pdf, .docx, .md, ...)
+ * └── versions/<n>/   # earlier versions, same files as above
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { Document, DocumentChunk, DocumentVersion, PageText } from '@/types'
+import { DOCUMENT_FORMATS } from '@/utils/documentFormats'
+import { STORAGE_DIR, readDirOrEmpty, readJsonFile, writeJsonFile } from '@/utils/storage'
+
+const DOCUMENTS_DIR = path.join(STORAGE_DIR, 'documents')
+
+const RECORD_FILE = 'document.json'
+const SOURCE_FILE = 'source'
+const PAGES_FILE = 'pages.json'
+const CHUNKS_FILE = 'chunks.json'
+const VERSIONS_DIR = 'versions'
+
+function sourceFile(document: Document): string {
+  // Records written before multi-format support have no format and are PDFs
+  return SOURCE_FILE + DOCUMENT_FORMATS[document.format ?? 'pdf'].extensions[0]
+}
+
+/**
+ * Ids are generated server-side, but arrive back in URLs - only allow
+ * characters that cannot escape the documents dir
+ */
+export function isValidDocumentId(id: string): boolean {
+  return /^[\w-]+$/.test(id)
+}
+
+export function documentDir(id: string): string {
+  if (!isValidDocumentId(id)) {
+    throw new Error(`Invalid document id: ${id}`)
+  }
+  return path.join(DOCUMENTS_DIR, id)
+}
+
+/**
+ * Store the original file bytes and its record
+ */
+export async function saveDocument(document: Document, data: Uint8Array): Promise<Document> {
+  const dir = documentDir(document.id)
+  await fs.mkdir(dir, { recursive: true })
+  await fs.writeFile(path.join(dir, sourceFile(document)), data)
+  await writeJsonFile(path.join(dir, RECORD_FILE), document, true)
+  return document
+}
+
+async function readJson<T>(id: string, file: string): Promise<T | null> {
+  return readJsonFile<T>(path.join(documentDir(id), file))
+}
+
+/**
+ * Load a document record, or null if it does not exist
+ */
+export async function getDocument(id: string): Promise<Document | null> {
+  return readJson<Document>(id, RECORD_FILE)
+}
+
+/**
+ * Change how a document is organized (collection, tags). Not a new version:
+ * the change applies to the document, not to one upload of it.
+ * @returns The updated record, or null if the document does not exist
+ */
+export async function updateDocument(
+  id: string,
+  changes: Partial<Pick<Document, 'collectionPath' | 'tags'>>
+): Promise<Document | null> {
+  const document = await getDocument(id)
+  if (!document) return null
+
+  const updated: Document = { ...document, ...changes }
+  if (!updated.collectionPath) delete updated.collectionPath
+  if (!updated.tags?.length) delete updated.tags
+
+  await writeJsonFile(path.join(documentDir(id), RECORD_FILE), updated, true)
+  return updated
+}
+
+/**
+ * Load every stored document record, newest upload first
+ */
+export async function listDocuments(): Promise<Document[]> {
+  const ids = await readDirOrEmpty(DOCUMENTS_DIR)
+  const documents = await Promise.all(ids.map(id => getDocument(id)))
+  return documents
+    .filter((document): document is Document => document !== null)
+    .sort((a, b) => b.uploadDate.localeCompare(a.uploadDate))
+}
+
+/**
+ * Store the extracted text of every page and the chunks built from it
+ */
+export async function saveDocumentText(
+  id: string,
+  pages: PageText[],
+  chunks: DocumentChunk[]
+): Promise<void> {
+  const dir = documentDir(id)
+  await writeJsonFile(path.join(dir, PAGES_FILE), pages)
+  await writeJsonFile(path.join(dir, CHUNKS_FILE), chunks)
+}
+
+/**
+ * Load the extracted page text of a document (empty if not extracted yet)
+ */
+export async function getDocumentPages(id: string): Promise<PageText[]> {
+  return (await readJson<PageText[]>(id, PAGES_FILE)) ?? []
+}
+
+/**
+ * Load the retrieval chunks of a document (empty if not chunked yet)
+ */
+export async function getDocumentChunks(id: string): Promise<DocumentChunk[]> {
+  return (await readJson<DocumentChunk[]>(id, CHUNKS_FILE)) ?? []
+}
+
+/**
+ * Read the original uploaded bytes of a document
+ */
+export async function readDocumentSource(document: Document): Promise<Uint8Array> {
+  return fs.readFile(path.join(documentDir(document.id), sourceFile(document)))
+}
+
+/**
+ * Cheap fingerprint of all stored chunks (document ids + chunk file mtimes),
+ * used to invalidate in-memory search indexes when the library changes
+ */
+export async function getChunksFingerprint(documentIds: string[]): Promise<string> {
+  const stamps = await Promise.all(
+    documentIds.map(async id => {
+      try {
+        const stat = await fs.stat(path.join(documentDir(id), CHUNKS_FILE))
+        return `${id}@${stat.mtimeMs}`
+      } catch {
+        return `${id}@-`
+      }
+    })
+  )
+  return stamps.sort().join('|')
+}
+
+function versionDir(id: string, version: number): string {
+  return path.join(documentDir(id), VERSIONS_DIR, String(version))
+}
+
+/**
+ * Find the current document whose upload has exactly these bytes
+ */
+export async function findDocumentByHash(contentHash: string): Promise<Document | null> {
+  const documents = await listDocuments()
+  return documents.find(document => document.contentHash === contentHash) ?? null
+}
+
+/**
+ * Find the current document uploaded under this file name
+ */
+export async function findDocumentByName(name: string): Promise<Document | null> {
+  const documents = await listDocuments()
+  return documents.find(document => document.name === name) ?? null
+}
+
+/**
+ * Move the current files of a document into `versions/<version>/`,
+ * making room for a new version at the top level
+ */
+export async function archiveCurrentVersion(document: Document): Promise<void> {
+  const dir = documentDir(document.id)
+  const archive = versionDir(document.id, document.version ?? 1)
+  await fs.mkdir(archive, { recursive: true })
+
+  for (const file of [RECORD_FILE, PAGES_FILE, CHUNKS_FILE, sourceFile(document)]) {
+    try {
+      await fs.rename(path.join(dir, file), path.join(archive, file))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+  }
+}
+
+/**
+ * Every version of a document, newest first (the current one included)
+ */
+export async function listDocumentVersions(id: string): Promise<DocumentVersion[]> {
+  const current = await getDocument(id)
+  if (!current) return []
+
+  const archived = await readDirOrEmpty(path.join(documentDir(id), VERSIONS_DIR))
+
+  const snapshots = await Promise.all(
+    archived.map(version => readJson<Document>(id, path.join(VERSIONS_DIR, version, RECORD_FILE)))
+  )
+
+  return [current, ...snapshots]
+    .filter((document): document is Document => document !== null)
+    .map(document => ({ ...document, version: document.version ?? 1 }))
+    .sort((a, b) => b.version - a.version)
+}
+
+/**
+ * Whether an archived version still has its original file. Page text and
+ * chunks are optional: a version whose extraction found no text has none.
+ */
+export async function canRestoreVersion(id: string, version: Document): Promise<boolean> {
+  try {
+    await fs.access(path.join(versionDir(id, version.version ?? 1), sourceFile(version)))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Roll back to an earlier version. The rollback is itself a new version
+ * (history stays linear), with `restoredFrom` pointing at the source.
+ * Nothing changes if the version cannot be restored (see `canRestoreVersion`).
+ * @returns The new current record, or null if the document or version does
+ *   not exist or cannot be restored
+ */
+export async function restoreDocumentVersion(id: string, version: number): Promise<Document | null> {
+  const versions = await listDocumentVersions(id)
+  const current = versions[0]
+  const target = versions.find(snapshot => snapshot.version === version)
+  if (!current || !target || target === current) return null
+  if (!(await canRestoreVersion(id, target))) return null
+
+  await archiveCurrentVersion(current)
+
+  const dir = documentDir(id)
+  const archive = versionDir(id, version)
+  for (const file of [sourceFile(target), PAGES_FILE, CHUNKS_FILE]) {
+    try {
+      await fs.copyFile(path.join(archive, file), path.join(dir, file))
+    } catch (error) {
+      // Archived without text, like `archiveCurrentVersion` allows
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+  }
+
+  // Organization belongs to the document, not the version
+  const { collectionPath, tags } = current
+  const restored: Document = {
+    ...target,
+    collectionPath,
+    tags,
+    version: current.version + 1,
+    restoredFrom: version,
+    uploadDate: new Date().toISOString(),
+  }
+  if (!restored.collectionPath) delete restored.collectionPath
+  if (!restored.tags?.length) delete restored.tags
+  await writeJsonFile(path.join(dir, RECORD_FILE), restored, true)
+  return restored
+}
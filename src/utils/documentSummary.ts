@@ -0,0 +1,179 @@
+/**
+ * Document Summaries (server-side only)
+ *
+ * At ingestion every document gets a short summary, its key points and main
+ * topics, so a new upload can be triaged without opening it. The agent writes
+ * them (through `@/utils/agentUpstream`, the server half of `callAIAgent`)
+ * from the start of the document's text. When the agent is not configured,
+ * fails, times out or answers without a usable summary, they are picked from
+ * the text instead: the sentences and terms that best represent the most
+ * frequent content words.
+ *
+ * @example
+ * ```ts
+ * import { summarizeDocument } from '@/utils/documentSummary'
+ *
+ * const summary = await summarizeDocument('contract.pdf', pages)
+ * summary?.topics // ['termination', 'payment', 'indemnification']
+ * ```
+ */
+
+import type { DocumentSummary, PageText } from '@/types'
+import { callAgentUpstream, isAgentConfigured } from '@/utils/agentUpstream'
+import { tokenize } from '@/utils/bm25'
+
+// The document Q&A agent, unless a dedicated one is configured
+const SUMMARY_AGENT_ID = process.env.SUMMARY_AGENT_ID || '6909a9b15d0b2c2413178b1e'
+
+/** Give up on the agent after this long and summarize locally */
+const AGENT_TIMEOUT_MS = 60_000
+
+/** Characters of document text sent to the agent */
+const AGENT_TEXT_LIMIT = 12_000
+
+const SUMMARY_SENTENCES = 3
+const MAX_SUMMARY_LENGTH = 600
+const MAX_KEY_POINTS = 5
+const MAX_KEY_POINT_LENGTH = 200
+const MAX_TOPICS = 6
+
+/** Words too common to say anything about a document (on top of the BM25 stopwords) */
+const FILLER_WORDS = new Set([
+  'about', 'after', 'all', 'also', 'any', 'been', 'before', 'being', 'both', 'can', 'could', 'does',
+  'each', 'more', 'most', 'must', 'not', 'only', 'other', 'our', 'over', 'page', 'same', 'shall',
+  'should', 'some', 'such', 'than', 'them', 'they', 'this', 'under', 'upon', 'very', 'when', 'where',
+  'whether', 'while', 'would', 'you', 'your',
+])
+
+function contentWords(text: string): string[] {
+  return tokenize(text).filter(word => word.length > 2 && !/^\d+$/.test(word) && !FILLER_WORDS.has(word))
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+(?:[.!?]+|$)/gm) ?? [])
+    .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+    .filter(sentence => sentence.split(' ').length >= 3)
+}
+
+/**
+ * Summary, key points and topics picked from the text itself
+ * @returns null when the document has no text
+ */
+export function extractiveSummary(pages: PageText[]): DocumentSummary | null {
+  const text = pages.map(page => page.text).join('\n').trim()
+  if (!text) return null
+
+  const frequencies = new Map<string, number>()
+  contentWords(text).forEach(word => frequencies.set(word, (frequencies.get(word) ?? 0) + 1))
+
+  // Sentences made of frequent words represent the document; long ones are not favoured
+  const sentences = splitSentences(text)
+  const ranked = sentences
+    .map((sentence, index) => {
+      const words = contentWords(sentence)
+      const weight = words.reduce((sum, word) => sum + (frequencies.get(word) ?? 0), 0)
+      return { sentence, index, score: words.length ? weight / Math.sqrt(words.length) : 0 }
+    })
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  const inOrder = (entries: typeof ranked) => [...entries].sort((a, b) => a.index - b.index).map(entry => entry.sentence)
+  const summarySentences = ranked.slice(0, SUMMARY_SENTENCES)
+  const summary = summarySentences.length
+    ? inOrder(summarySentences).join(' ')
+    : text.replace(/\s+/g, ' ')
+
+  // Words that come up more than once, unless the document is too short to repeat itself
+  const counted = Array.from(frequencies).sort((a, b) => b[1] - a[1])
+  const repeated = counted.filter(([, count]) => count > 1)
+  const topics = (repeated.length >= 3 ? repeated : counted).slice(0, MAX_TOPICS).map(([word]) => word)
+
+  return {
+    summary: truncate(summary, MAX_SUMMARY_LENGTH),
+    keyPoints: inOrder(ranked.slice(SUMMARY_SENTENCES, SUMMARY_SENTENCES + MAX_KEY_POINTS)).map(point =>
+      truncate(point, MAX_KEY_POINT_LENGTH)
+    ),
+    topics,
+    source: 'extractive',
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+function buildSummaryPrompt(name: string, text: string): string {
+  return [
+    `Summarize the document "${name}" for someone deciding whether to read it.`,
+    'Respond with JSON only, in this exact shape:',
+    '{"summary": "2-3 sentences", "key_points": ["up to 5 short points"], "topics": ["up to 6 one- or two-word topics"]}',
+    'Use only the document text below; do not invent facts.',
+    '',
+    'DOCUMENT TEXT:',
+    text,
+  ].join('\n')
+}
+
+function stringList(value: unknown, limit: number): string[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+    .map(item => item.trim())
+    .slice(0, limit)
+}
+
+async function agentSummary(name: string, pages: PageText[]): Promise<DocumentSummary | null> {
+  const text = pages.map(page => page.text).join('\n').slice(0, AGENT_TEXT_LIMIT)
+  const result = await callAgentUpstream({
+    message: buildSummaryPrompt(name, text),
+    agent_id: SUMMARY_AGENT_ID,
+    signal: AbortSignal.timeout(AGENT_TIMEOUT_MS),
+  })
+
+  if (!result.success) {
+    console.warn(`Agent summary of ${name} failed: ${result.error}`)
+    return null
+  }
+
+  const reply = result.response
+  // The Q&A agent answers in its own shape; take its `answer` as the summary
+  const summary = typeof reply === 'string' ? reply : reply?.summary ?? reply?.answer
+  if (typeof summary !== 'string' || !summary.trim()) return null
+
+  return {
+    summary: summary.trim(),
+    keyPoints: stringList(reply?.key_points ?? reply?.keyPoints, MAX_KEY_POINTS),
+    topics: stringList(reply?.topics, MAX_TOPICS),
+    source: 'agent',
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Summarize a document, by the agent when possible
+ * @returns null when the document has no text
+ */
+export async function summarizeDocument(name: string, pages: PageText[]): Promise<DocumentSummary | null> {
+  if (!pages.some(page => page.text.trim())) return null
+
+  if (isAgentConfigured()) {
+    try {
+      const summary = await agentSummary(name, pages)
+      if (summary?.keyPoints.length && summary.topics.length) return summary
+      if (summary) {
+        // An agent that only answered with prose still gets lists to go with it
+        const local = extractiveSummary(pages)
+        return {
+          ...summary,
+          keyPoints: summary.keyPoints.length ? summary.keyPoints : local?.keyPoints ?? [],
+          topics: summary.topics.length ? summary.topics : local?.topics ?? [],
+        }
+      }
+    } catch (error) {
+      console.warn(`Agent summary of ${name} failed:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  return extractiveSummary(pages)
+}
@@ -0,0 +1,301 @@
+/**
+ * Document Upload Utility
+ *
+ * Uploads files through the resumable chunked protocol of `/api/uploads`
+ * (see that route for the wire format):
+ * - Progress comes from bytes actually sent, with speed and time remaining
+ * - A dropped connection is retried from the last byte the server has
+ * - Re-selecting a file after a reload resumes its unfinished upload
+ *   (the upload id is remembered in localStorage)
+ * - Aborting the signal cancels the upload and discards it on the server
+ * - Once all bytes are in, the file is queued for ingestion: the result is
+ *   the background job (follow it with `@/utils/jobsApi`), not the document
+ *
+ * `fetch` cannot report upload progress, so chunks are sent with XMLHttpRequest.
+ *
+ * @example
+ * ```tsx
+ * import { uploadDocument } from '@/utils/documentUpload'
+ *
+ * const controller = new AbortController()
+ * const result = await uploadDocument(file, {
+ *   onProgress: progress => setProgress(progress.percent),
+ *   signal: controller.signal,
+ * })
+ * if (result.success) trackJob(result.job)
+ * ```
+ */
+
+import type { IngestJob } from '@/types'
+
+const API_ROUTE = '/api/uploads'
+
+/** Consecutive failed attempts on one chunk before giving up */
+const MAX_RETRIES = 5
+
+/** Window over which upload speed is averaged */
+const SPEED_WINDOW_MS = 5000
+
+export interface UploadProgress {
+  loaded: number
+  total: number
+  /** 0-100 */
+  percent: number
+  /** Bytes per second over the last few seconds */
+  speed: number
+  /** Seconds remaining, or null until the speed is known */
+  eta: number | null
+}
+
+export interface DocumentUploadOptions {
+  onProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal
+  /** Folder the file came from (see `@/utils/collections`) */
+  collectionPath?: string
+}
+
+export interface DocumentUploadResponse {
+  success: boolean
+  job?: IngestJob
+  error?: string
+  details?: string
+  /** Set when the upload was stopped through the abort signal */
+  cancelled?: boolean
+}
+
+interface UploadStatus {
+  id: string
+  size: number
+  received: number
+}
+
+interface XhrResult {
+  status: number
+  data: any
+}
+
+class UploadAbortedError extends Error {
+  constructor() {
+    super('Upload cancelled')
+    this.name = 'UploadAbortedError'
+  }
+}
+
+/**
+ * Promise wrapper around XMLHttpRequest. Rejects on network errors and aborts,
+ * resolves (whatever the status) once the server has answered.
+ */
+function sendRequest(
+  method: string,
+  url: string,
+  options: {
+    body?: XMLHttpRequestBodyInit
+    headers?: Record<string, string>
+    onUploadProgress?: (loaded: number) => void
+    signal?: AbortSignal
+  } = {}
+): Promise<XhrResult> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new UploadAbortedError())
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    const onAbort = () => xhr.abort()
+    options.signal?.addEventListener('abort', onAbort)
+    const cleanup = () => options.signal?.removeEventListener('abort', onAbort)
+
+    xhr.upload.onprogress = event => options.onUploadProgress?.(event.loaded)
+
+    xhr.onload = () => {
+      cleanup()
+      let data: any
+      try {
+        data = JSON.parse(xhr.responseText)
+      } catch {
+        data = { success: false, error: `API returned status ${xhr.status}`, details: xhr.responseText }
+      }
+      resolve({ status: xhr.status, data })
+    }
+    xhr.onerror = () => {
+      cleanup()
+      reject(new Error('Network error while uploading'))
+    }
+    xhr.onabort = () => {
+      cleanup()
+      reject(new UploadAbortedError())
+    }
+
+    xhr.open(method, url)
+    Object.entries(options.headers ?? {}).forEach(([name, value]) => xhr.setRequestHeader(name, value))
+    xhr.send(options.body ?? null)
+  })
+}
+
+/**
+ * Wait before retrying; rejects as soon as the upload is cancelled
+ */
+function retryDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadAbortedError())
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new UploadAbortedError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function resumeKey(file: File): string {
+  return `upload:${file.name}:${file.size}:${file.lastModified}`
+}
+
+function rememberUpload(file: File, id: string | null) {
+  try {
+    if (id) localStorage.setItem(resumeKey(file), id)
+    else localStorage.removeItem(resumeKey(file))
+  } catch {
+    // Storage full or disabled - resuming across reloads just won't work
+  }
+}
+
+/**
+ * Resume this file's unfinished upload if the server still has it,
+ * otherwise start a new one
+ */
+async function openUpload(
+  file: File,
+  collectionPath: string | undefined,
+  signal?: AbortSignal
+): Promise<{ upload: UploadStatus; chunkSize: number }> {
+  let savedId: string | null = null
+  try {
+    savedId = localStorage.getItem(resumeKey(file))
+  } catch {
+    savedId = null
+  }
+
+  if (savedId) {
+    const { status, data } = await sendRequest('GET', `${API_ROUTE}/${encodeURIComponent(savedId)}`, { signal })
+    if (status === 200 && data.upload?.size === file.size) {
+      return { upload: data.upload, chunkSize: data.chunkSize }
+    }
+  }
+
+  const { status, data } = await sendRequest('POST', API_ROUTE, {
+    body: JSON.stringify({ name: file.name, type: file.type, size: file.size, collectionPath }),
+    headers: { 'Content-Type': 'application/json' },
+    signal,
+  })
+  if (status !== 201 || !data.upload) {
+    throw Object.assign(new Error(data.error || `API returned status ${status}`), { details: data.details })
+  }
+
+  rememberUpload(file, data.upload.id)
+  return { upload: data.upload, chunkSize: data.chunkSize }
+}
+
+/**
+ * Upload a single file
+ *
+ * @param file - The file to upload
+ * @param options - Progress callback, abort signal and collection path
+ * @returns Promise with the queued ingestion job, or an error (never rejects)
+ */
+export async function uploadDocument(
+  file: File,
+  options: DocumentUploadOptions = {}
+): Promise<DocumentUploadResponse> {
+  const { onProgress, signal, collectionPath } = options
+  const samples: Array<[number, number]> = []
+  let uploadId: string | null = null
+
+  const report = (loaded: number) => {
+    const now = Date.now()
+    samples.push([now, loaded])
+    while (samples.length > 2 && now - samples[0][0] > SPEED_WINDOW_MS) samples.shift()
+
+    const [startTime, startLoaded] = samples[0]
+    const elapsed = (now - startTime) / 1000
+    const speed = elapsed > 0 ? (loaded - startLoaded) / elapsed : 0
+
+    onProgress?.({
+      loaded,
+      total: file.size,
+      percent: file.size ? (loaded / file.size) * 100 : 100,
+      speed,
+      eta: speed > 0 ? (file.size - loaded) / speed : null,
+    })
+  }
+
+  try {
+    const opened = await openUpload(file, collectionPath, signal)
+    uploadId = opened.upload.id
+    const chunkUrl = `${API_ROUTE}/${encodeURIComponent(uploadId)}`
+    let received = opened.upload.received
+    let failures = 0
+    report(received)
+
+    while (received < file.size) {
+      if (signal?.aborted) throw new UploadAbortedError()
+      const offset = received
+      try {
+        const { status, data } = await sendRequest('PATCH', chunkUrl, {
+          body: file.slice(offset, offset + opened.chunkSize),
+          headers: { 'Upload-Offset': String(offset), 'Content-Type': 'application/octet-stream' },
+          onUploadProgress: loaded => report(offset + loaded),
+          signal,
+        })
+
+        if ((status === 200 || status === 409) && data.upload) {
+          // 409: the server has a different offset (e.g. a chunk landed but
+          // its response was lost) - carry on from wherever it is
+          received = data.upload.received
+          failures = 0
+          report(received)
+          continue
+        }
+
+        return { success: false, error: data.error || `API returned status ${status}`, details: data.details }
+      } catch (error) {
+        if (error instanceof UploadAbortedError || ++failures > MAX_RETRIES) throw error
+
+        // Dropped connection: back off, then ask the server where to resume
+        await retryDelay(Math.min(1000 * 2 ** failures, 15000), signal)
+        const { status, data } = await sendRequest('GET', chunkUrl, { signal }).catch(error => {
+          if (error instanceof UploadAbortedError) throw error
+          return { status: 0, data: null }
+        })
+        if (status === 200 && data.upload) received = data.upload.received
+      }
+    }
+
+    const { data } = await sendRequest('POST', `${chunkUrl}/complete`, { signal })
+    rememberUpload(file, null)
+    return data
+  } catch (error) {
+    if (error instanceof UploadAbortedError) {
+      if (uploadId) {
+        rememberUpload(file, null)
+        // Fire and forget - the server also purges abandoned uploads
+        fetch(`${API_ROUTE}/${encodeURIComponent(uploadId)}`, { method: 'DELETE' }).catch(() => undefined)
+      }
+      return { success: false, error: `Cancelled upload of ${file.name}`, cancelled: true }
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Upload failed',
+      details: (error as { details?: string }).details,
+    }
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Documents API Client
+ *
+ * Browser-side wrappers for the `/api/documents` routes (everything except
+ * uploads, which live in `@/utils/documentUpload` for progress reporting).
+ *
+ * @example
+ * ```tsx
+ * import { fetchDocumentVersions } from '@/utils/documentsApi'
+ *
+ * const result = await fetchDocumentVersions(doc.id)
+ * if (result.success) setVersions(result.versions)
+ * ```
+ */
+
+import type { Document, DocumentVersion, PageText, TrashedDocument } from '@/types'
+import { apiRequest, jsonBody, type ApiResult } from '@/utils/apiRequest'
+import { documentFilterParams, type CitationCounts, type DocumentFilter, type DocumentSort } from '@/utils/documentFilter'
+
+const API_ROUTE = '/api/documents'
+
+/**
+ * Stored documents matching an optional filter, newest upload first unless
+ * another sort is given, and how often each one has been cited
+ */
+export function fetchDocuments(filter: DocumentFilter = {}, sort?: DocumentSort) {
+  const query = documentFilterParams(filter, sort).toString()
+  return apiRequest<ApiResult & { documents?: Document[]; citationCounts?: CitationCounts }>(
+    query ? `${API_ROUTE}?${query}` : API_ROUTE
+  )
+}
+
+/**
+ * Version history of a document, newest first
+ */
+export function fetchDocumentVersions(id: string) {
+  return apiRequest<ApiResult & { versions?: DocumentVersion[] }>(
+    `${API_ROUTE}/${encodeURIComponent(id)}/versions`
+  )
+}
+
+/**
+ * Roll a document back to an earlier version
+ * @returns The new current version of the document
+ */
+export function restoreDocumentVersion(id: string, version: number) {
+  return apiRequest<ApiResult & { document?: Document }>(
+    `${API_ROUTE}/${encodeURIComponent(id)}/versions/${version}/restore`,
+    { method: 'POST' }
+  )
+}
+
+/**
+ * Move a document to another collection ('' for none) and/or replace its tags
+ */
+export function updateDocument(id: string, changes: Partial<Pick<Document, 'collectionPath' | 'tags'>>) {
+  return apiRequest<ApiResult & { document?: Document }>(
+    `${API_ROUTE}/${encodeURIComponent(id)}`,
+    jsonBody('PATCH', changes)
+  )
+}
+
+/**
+ * Move a document to the trash; undo with `restoreFromTrash` in `@/utils/trashApi`
+ */
+export function deleteDocument(id: string) {
+  return apiRequest<ApiResult & { document?: TrashedDocument }>(
+    `${API_ROUTE}/${encodeURIComponent(id)}`,
+    { method: 'DELETE' }
+  )
+}
+
+/**
+ * The extracted text of every page of a document
+ */
+export function fetchDocumentPages(id: string) {
+  return apiRequest<ApiResult & { document?: Document; pages?: PageText[] }>(
+    `${API_ROUTE}/${encodeURIComponent(id)}?include=pages`
+  )
+}
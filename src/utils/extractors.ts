@@ -0,0 +1,271 @@
+/**
+ * Document Text Extractors (server-side only)
+ *
+ * One ingestion interface for every supported format: raw upload bytes in,
+ * `PageText[]` out. Formats without fixed pages are split as follows:
+ * - PDF: real pages (pdfjs)
+ * - DOCX: page breaks Word recorded when the file was last saved, falling
+ *   back to fixed-size pages
+ * - EPUB: one page per spine item (chapter)
+ * - Markdown / plain text / HTML: fixed-size pages split at paragraph breaks
+ *
+ * Formats that carry descriptive metadata (currently PDF) also implement
+ * `details`, which reads it along with the bookmark outline.
+ *
+ * @example
+ * ```ts
+ * import { extractDocumentPages, looksLikeFormat } from '@/utils/extractors'
+ *
+ * if (looksLikeFormat('docx', bytes)) {
+ *   const pages = await extractDocumentPages('docx', bytes)
+ * }
+ * ```
+ */
+
+import JSZip from 'jszip'
+import path from 'path'
+import type { Document, PageText } from '@/types'
+import type { DocumentFormat } from '@/utils/documentFormats'
+import { extractPdfDetails, extractPdfPages } from '@/utils/pdf'
+
+export interface DocumentExtractor {
+  /** Cheap signature check on the raw bytes */
+  matches(data: Uint8Array): boolean
+  /** Extract text page by page (1-based page numbers); `onOcrPage` reports OCR progress */
+  extract(data: Uint8Array, onOcrPage?: OcrPageCallback): Promise<PageText[]>
+  /** Embedded metadata and outline, for formats that have them */
+  details?(data: Uint8Array): Promise<DocumentDetails>
+}
+
+export type DocumentDetails = Pick<Document, 'metadata' | 'outline'>
+
+export type OcrPageCallback = (pageNumber: number, pageCount: number) => void
+
+/** Target characters per synthetic page (about one printed page) */
+const PAGE_SIZE = 3000
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', copy: '©', reg: '®', trade: '™', bull: '•',
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+function decodeUtf8(data: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '')
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Convert an HTML or XHTML document to plain text, keeping block structure
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|li|ul|ol|h[1-6]|tr|table|blockquote|pre|hr)\b[^>]*>/gi, '\n\n')
+    .replace(/<\/?(td|th)\b[^>]*>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+  return normalizeWhitespace(decodeEntities(text))
+}
+
+/**
+ * Strip Markdown syntax, keeping the readable text
+ */
+export function markdownToText(markdown: string): string {
+  const text = markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/gm, '')
+    .replace(/\|/g, ' ')
+    .replace(/(\*\*|__|~~|`)/g, '')
+    .replace(/(^|\W)[*_](\S[^*_]*)[*_](?=\W|$)/g, '$1$2')
+    .replace(/<[^>]+>/g, '')
+  return normalizeWhitespace(decodeEntities(text))
+}
+
+/**
+ * Split long text into pages of about `pageSize` characters, preferring
+ * paragraph breaks, then line breaks, then spaces
+ */
+export function paginateText(text: string, pageSize = PAGE_SIZE): PageText[] {
+  const pages: PageText[] = []
+  let rest = text.trim()
+
+  while (rest) {
+    let end = rest.length
+    if (rest.length > pageSize) {
+      const window = rest.slice(0, pageSize)
+      const floor = pageSize / 2
+      const breakAt = [window.lastIndexOf('\n\n'), window.lastIndexOf('\n'), window.lastIndexOf(' ')]
+        .find(index => index > floor)
+      end = breakAt ?? pageSize
+    }
+    pages.push({ pageNumber: pages.length + 1, text: rest.slice(0, end).trim() })
+    rest = rest.slice(end).trim()
+  }
+
+  return pages
+}
+
+function startsWith(data: Uint8Array, signature: string): boolean {
+  return Buffer.from(data.subarray(0, signature.length)).toString('latin1') === signature
+}
+
+/** Text formats have no magic number - reject anything with NUL bytes up front */
+function looksLikeText(data: Uint8Array): boolean {
+  return !data.subarray(0, 4096).includes(0)
+}
+
+const ZIP_SIGNATURE = 'PK\x03\x04'
+
+async function extractDocxPages(data: Uint8Array): Promise<PageText[]> {
+  const zip = await JSZip.loadAsync(data)
+  const xml = await zip.file('word/document.xml')?.async('string')
+  if (!xml) {
+    throw new Error('Not a Word document: word/document.xml is missing')
+  }
+
+  const pageTexts: string[] = []
+  let current = ''
+  const breakPage = () => {
+    // Word can record an explicit and a rendered break at the same spot
+    if (current.trim()) {
+      pageTexts.push(current)
+      current = ''
+    }
+  }
+
+  const tokens = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\b([^>]*)\/>|<w:lastRenderedPageBreak\/>|<\/w:p>/g
+  for (const [token, text, breakAttributes] of Array.from(xml.matchAll(tokens))) {
+    if (text !== undefined) current += decodeEntities(text)
+    else if (token === '<w:tab/>') current += '\t'
+    else if (token === '</w:p>') current += '\n'
+    else if (token.startsWith('<w:br')) {
+      if (/w:type="page"/.test(breakAttributes ?? '')) breakPage()
+      else current += '\n'
+    } else breakPage()
+  }
+  breakPage()
+
+  const texts = pageTexts.map(normalizeWhitespace)
+
+  // No rendered page breaks (e.g. generated files) - fall back to fixed-size pages
+  if (texts.length <= 1) return paginateText(texts[0] ?? '')
+
+  return texts.map((text, i) => ({ pageNumber: i + 1, text }))
+}
+
+async function extractEpubPages(data: Uint8Array): Promise<PageText[]> {
+  const zip = await JSZip.loadAsync(data)
+
+  const container = await zip.file('META-INF/container.xml')?.async('string')
+  const opfPath = container?.match(/full-path="([^"]+)"/)?.[1]
+  const opf = opfPath ? await zip.file(opfPath)?.async('string') : undefined
+  if (!opfPath || !opf) {
+    throw new Error('Not an EPUB: package document is missing')
+  }
+
+  const manifest = new Map<string, string>()
+  for (const [item] of Array.from(opf.matchAll(/<item\b[^>]*>/g))) {
+    const id = item.match(/\bid="([^"]+)"/)?.[1]
+    const href = item.match(/\bhref="([^"]+)"/)?.[1]
+    if (id && href) manifest.set(id, href)
+  }
+
+  const baseDir = path.posix.dirname(opfPath)
+  const pages: PageText[] = []
+
+  for (const [, idref] of Array.from(opf.matchAll(/<itemref\b[^>]*\bidref="([^"]+)"/g))) {
+    const href = manifest.get(idref)
+    if (!href) continue
+
+    const chapterPath = path.posix.normalize(path.posix.join(baseDir, decodeURIComponent(href.split('#')[0])))
+    const chapter = await zip.file(chapterPath)?.async('string')
+    const text = chapter ? htmlToText(chapter) : ''
+    if (text) pages.push({ pageNumber: pages.length + 1, text })
+  }
+
+  return pages
+}
+
+export const EXTRACTORS: Record<DocumentFormat, DocumentExtractor> = {
+  pdf: {
+    matches: data => startsWith(data, '%PDF-'),
+    extract: extractPdfPages,
+    details: extractPdfDetails,
+  },
+  docx: {
+    matches: data => startsWith(data, ZIP_SIGNATURE),
+    extract: extractDocxPages,
+  },
+  epub: {
+    matches: data => startsWith(data, ZIP_SIGNATURE),
+    extract: extractEpubPages,
+  },
+  markdown: {
+    matches: looksLikeText,
+    extract: async data => paginateText(markdownToText(decodeUtf8(data))),
+  },
+  text: {
+    matches: looksLikeText,
+    extract: async data => paginateText(normalizeWhitespace(decodeUtf8(data))),
+  },
+  html: {
+    matches: looksLikeText,
+    extract: async data => paginateText(htmlToText(decodeUtf8(data))),
+  },
+}
+
+/**
+ * Check the raw bytes look like the claimed format
+ */
+export function looksLikeFormat(format: DocumentFormat, data: Uint8Array): boolean {
+  return EXTRACTORS[format].matches(data)
+}
+
+/**
+ * Extract the text of a document page by page
+ * @throws if the bytes cannot be parsed as `format`
+ */
+export async function extractDocumentPages(
+  format: DocumentFormat,
+  data: Uint8Array,
+  onOcrPage?: OcrPageCallback
+): Promise<PageText[]> {
+  return EXTRACTORS[format].extract(data, onOcrPage)
+}
+
+/**
+ * Read the embedded metadata and outline of a document. Best effort: a file
+ * whose text extracted fine is not rejected over unreadable metadata.
+ */
+export async function extractDocumentDetails(format: DocumentFormat, data: Uint8Array): Promise<DocumentDetails> {
+  try {
+    return (await EXTRACTORS[format].details?.(data)) ?? {}
+  } catch (error) {
+    console.error(`Could not read ${format} metadata:`, error)
+    return {}
+  }
+}
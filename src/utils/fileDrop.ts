@@ -0,0 +1,94 @@
+/**
+ * Dropped File Collection (browser-only)
+ *
+ * Turns a drop event or a file input into a flat list of files with the
+ * collection path each one came from. Dropped folders are walked recursively
+ * through the File System entries API, so sub-folders are kept; folders
+ * picked with `<input webkitdirectory>` use `File.webkitRelativePath`.
+ *
+ * @example
+ * ```tsx
+ * import { readDroppedFiles } from '@/utils/fileDrop'
+ *
+ * const onDrop = async (event: React.DragEvent) => {
+ *   event.preventDefault()
+ *   const files = await readDroppedFiles(event.dataTransfer)
+ *   files.forEach(({ file, collectionPath }) => console.log(collectionPath, file.name))
+ * }
+ * ```
+ */
+
+import { collectionPathOf } from '@/utils/collections'
+
+export interface CollectedFile {
+  file: File
+  /** '' for files dropped or selected on their own */
+  collectionPath: string
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+/**
+ * `readEntries` returns at most ~100 entries per call; keep reading until empty
+ */
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (!batch.length) return entries
+    entries.push(...batch)
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry, files: CollectedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry)
+    // fullPath is '/Folder/sub/file.pdf' for files inside a dropped folder
+    files.push({ file, collectionPath: collectionPathOf(entry.fullPath) })
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, files)
+    }
+  }
+}
+
+/**
+ * Every file in a drop, including the contents of dropped folders
+ */
+export async function readDroppedFiles(dataTransfer: DataTransfer): Promise<CollectedFile[]> {
+  // Entries must be taken synchronously - the DataTransfer is emptied once
+  // the drop handler yields
+  const items = Array.from(dataTransfer.items ?? [])
+  const entries = items
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null)
+
+  if (!entries.length || entries.some(entry => !entry)) {
+    // No entries API: plain files only
+    return Array.from(dataTransfer.files).map(file => ({ file, collectionPath: '' }))
+  }
+
+  const files: CollectedFile[] = []
+  for (const entry of entries) {
+    try {
+      await walkEntry(entry as FileSystemEntry, files)
+    } catch (error) {
+      console.error(`Could not read dropped ${entry?.name}:`, error)
+    }
+  }
+  return files
+}
+
+/**
+ * Files from an `<input type="file">`, with folder paths when it was a
+ * `webkitdirectory` picker
+ */
+export function readInputFiles(fileList: FileList): CollectedFile[] {
+  return Array.from(fileList).map(file => ({
+    file,
+    collectionPath: file.webkitRelativePath ? collectionPathOf(file.webkitRelativePath) : '',
+  }))
+}
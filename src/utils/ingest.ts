@@ -0,0 +1,178 @@
+/**
+ * Document Ingestion (server-side only)
+ *
+ * The one pipeline every upload path goes through (single-request multipart
+ * uploads and resumable chunked uploads):
+ *
+ * 1. Detect the format from the file name / type and check the bytes match it
+ * 2. Hash the bytes (SHA-256): an exact duplicate of a stored document is
+ *    rejected; a changed file with the same name becomes the next version of
+ *    that document
+ *    Then check the workspace quotas (see `@/utils/quotas`) - the page limit
+ *    once the pages are known
+ * 3. Extract the text of every page with that format's extractor
+ *    (see `@/utils/extractors` for how pageless formats are paginated);
+ *    scanned PDF pages without a text layer go through OCR. Embedded
+ *    metadata and the bookmark outline are read alongside.
+ * 4. Summarize the document: summary, key points and topics (see
+ *    `@/utils/documentSummary`; falls back to picking them from the text)
+ * 5. Split the pages into overlapping chunks (see `@/utils/chunker`)
+ * 6. Store the original bytes, the `Document` record, page text and chunks
+ *
+ * Failures are returned, not thrown, with the HTTP status the API routes
+ * should answer with. `onStage` reports progress through steps 3-6 - the
+ * background queue in `@/utils/ingestQueue` turns it into job states.
+ *
+ * @example
+ * ```ts
+ * import { ingestDocument } from '@/utils/ingest'
+ *
+ * const { status, ...body } = await ingestDocument(file.name, file.type, bytes, { collectionPath })
+ * return NextResponse.json(body, { status })
+ * ```
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import type { Document, PageText, QuotaCode } from '@/types'
+import { chunkPages } from '@/utils/chunker'
+import { normalizeCollectionPath } from '@/utils/collections'
+import { summarizeDocument } from '@/utils/documentSummary'
+import { DOCUMENT_FORMATS, detectDocumentFormat } from '@/utils/documentFormats'
+import {
+  archiveCurrentVersion,
+  findDocumentByHash,
+  findDocumentByName,
+  saveDocument,
+  saveDocumentText,
+} from '@/utils/documentStore'
+import { extractDocumentDetails, extractDocumentPages, looksLikeFormat } from '@/utils/extractors'
+import { LOW_OCR_CONFIDENCE } from '@/utils/ocr'
+import { checkQuota } from '@/utils/quotas'
+
+export type IngestResult =
+  | { success: true; status: 201; document: Document }
+  | { success: false; status: number; error: string; details?: string; document?: Document; code?: QuotaCode; limit?: number }
+
+export type IngestStage = 'extracting' | 'ocr' | 'summarizing' | 'indexing'
+
+export interface IngestOptions {
+  /** Folder the file was uploaded from; a new version keeps the old one if unset */
+  collectionPath?: string
+  /** Called as ingestion moves on; `ocr` once per scanned page, with its number */
+  onStage?: (stage: IngestStage, page?: { pageNumber: number; pageCount: number }) => void
+}
+
+/**
+ * Ingest one uploaded file
+ * @returns The stored document (status 201), or why it was rejected:
+ *   415 unsupported / mismatched type, 409 duplicate (with the existing
+ *   `document`), 413 / 507 over a quota (with its `code`), 422 unreadable
+ */
+export async function ingestDocument(
+  name: string,
+  mimeType: string,
+  data: Uint8Array,
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const format = detectDocumentFormat(name, mimeType)
+
+  if (!format) {
+    return {
+      success: false,
+      status: 415,
+      error: `${name} is not a supported file type`,
+      details: `Supported: ${Object.values(DOCUMENT_FORMATS).map(info => info.label).join(', ')}`,
+    }
+  }
+
+  if (!looksLikeFormat(format, data)) {
+    return {
+      success: false,
+      status: 415,
+      error: `${name} is not a valid ${DOCUMENT_FORMATS[format].label} file`,
+    }
+  }
+
+  const contentHash = createHash('sha256').update(data).digest('hex')
+  const duplicate = await findDocumentByHash(contentHash)
+
+  if (duplicate) {
+    return {
+      success: false,
+      status: 409,
+      error: duplicate.name === name
+        ? `${name} is already in the library`
+        : `${name} is identical to ${duplicate.name}, which is already in the library`,
+      document: duplicate,
+    }
+  }
+
+  const previous = await findDocumentByName(name)
+
+  const overQuota = await checkQuota(name, { size: data.byteLength, replaces: previous })
+  if (overQuota) return { success: false, ...overQuota }
+
+  let pages: PageText[]
+  try {
+    options.onStage?.('extracting')
+    pages = await extractDocumentPages(format, data, (pageNumber, pageCount) =>
+      options.onStage?.('ocr', { pageNumber, pageCount })
+    )
+  } catch (error) {
+    return {
+      success: false,
+      status: 422,
+      error: `Could not read ${name}`,
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+
+  const overPageLimit = await checkQuota(name, { size: data.byteLength, pages: pages.length, replaces: previous })
+  if (overPageLimit) return { success: false, ...overPageLimit }
+
+  const { metadata, outline } = await extractDocumentDetails(format, data)
+
+  const document: Document = {
+    id: previous?.id ?? randomUUID(),
+    name,
+    format,
+    size: data.byteLength,
+    pages: pages.length,
+    uploadDate: new Date().toISOString(),
+    contentHash,
+    version: previous ? (previous.version ?? 1) + 1 : 1,
+  }
+
+  if (metadata) document.metadata = metadata
+  if (outline) document.outline = outline
+
+  const collectionPath = normalizeCollectionPath(options.collectionPath) || previous?.collectionPath
+  if (collectionPath) {
+    document.collectionPath = collectionPath
+  }
+  if (previous?.tags?.length) {
+    document.tags = previous.tags
+  }
+
+  const ocrPages = pages.filter(page => page.ocrConfidence !== undefined)
+  if (ocrPages.length) {
+    document.ocrPages = ocrPages.map(page => page.pageNumber)
+    document.lowConfidencePages = ocrPages
+      .filter(page => (page.ocrConfidence ?? 0) < LOW_OCR_CONFIDENCE)
+      .map(page => page.pageNumber)
+  }
+
+  options.onStage?.('summarizing')
+  const summary = await summarizeDocument(name, pages)
+  if (summary) document.summary = summary
+
+  options.onStage?.('indexing')
+  if (previous) {
+    await archiveCurrentVersion(previous)
+  }
+
+  await saveDocument(document, data)
+  await saveDocumentText(document.id, pages, chunkPages(document.id, pages))
+
+  return { success: true, status: 201, document }
+}
@@ -0,0 +1,328 @@
+/**
+ * Background Ingestion Queue (server-side only)
+ *
+ * Uploads are handed to this queue instead of being ingested inside the
+ * request, so parsing, OCR and indexing never hold an HTTP response open.
+ * Jobs run one at a time (OCR is CPU-bound) and move through
+ * queued -> extracting -> ocr (scanned pages only) -> summarizing -> indexing ->
+ * done | failed.
+ *
+ * ```
+ * <DOCUMENT_STORAGE_DIR>/jobs/<id>/
+ * ├── job.json   # IngestJob
+ * └── data.bin   # the uploaded bytes, kept until the job is done (for retries)
+ * ```
+ *
+ * Jobs interrupted by a server restart are queued again on the next access.
+ * Finished and failed jobs are purged after JOB_EXPIRY_MS. Every state change
+ * is published to `subscribeToJobs` listeners (the SSE route).
+ *
+ * @example
+ * ```ts
+ * import { enqueueIngestJob, subscribeToJobs } from '@/utils/ingestQueue'
+ *
+ * const job = await enqueueIngestJob(file.name, file.type, bytes, { collectionPath })
+ * const unsubscribe = subscribeToJobs(job => console.log(job.id, job.state))
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import type { IngestJob } from '@/types'
+import { ingestDocument, type IngestOptions } from '@/utils/ingest'
+import { STORAGE_DIR, readDirOrEmpty, readJsonFile, writeJsonFile } from '@/utils/storage'
+
+const JOBS_DIR = path.join(STORAGE_DIR, 'jobs')
+const JOB_FILE = 'job.json'
+const DATA_FILE = 'data.bin'
+
+/** Finished and failed jobs are removed after a day */
+const JOB_EXPIRY_MS = 24 * 60 * 60 * 1000
+
+/** Failures retrying cannot fix: duplicate (409), over a per-file quota (413) and unsupported (415) files */
+const PERMANENT_FAILURES = [409, 413, 415]
+
+export type JobListener = (job: IngestJob) => void
+
+interface QueueState {
+  pending: string[]
+  running: boolean
+  listeners: Set<JobListener>
+  recovery: Promise<void> | null
+}
+
+// Route handlers can be bundled separately, each with its own copy of this
+// module - keep one queue per server process
+const globalForQueue = globalThis as typeof globalThis & { ingestQueue?: QueueState }
+const queue = (globalForQueue.ingestQueue ??= {
+  pending: [],
+  running: false,
+  listeners: new Set(),
+  recovery: null,
+})
+
+export function isValidJobId(id: string): boolean {
+  return /^[\w-]+$/.test(id)
+}
+
+function jobDir(id: string): string {
+  if (!isValidJobId(id)) {
+    throw new Error(`Invalid job id: ${id}`)
+  }
+  return path.join(JOBS_DIR, id)
+}
+
+async function saveJob(job: IngestJob): Promise<IngestJob> {
+  await writeJsonFile(path.join(jobDir(job.id), JOB_FILE), job, true)
+  queue.listeners.forEach(listener => {
+    try {
+      listener(job)
+    } catch (error) {
+      console.error('Job listener error:', error)
+    }
+  })
+  return job
+}
+
+async function updateJob(job: IngestJob, changes: Partial<IngestJob>): Promise<IngestJob> {
+  const updated: IngestJob = { ...job, ...changes, updatedAt: new Date().toISOString() }
+  if (updated.state !== 'ocr') {
+    delete updated.ocrPage
+    delete updated.pageCount
+  }
+  if (updated.state !== 'failed') {
+    delete updated.error
+    delete updated.details
+    delete updated.errorStatus
+    delete updated.errorCode
+    delete updated.retryable
+  }
+  if (updated.state !== 'done' && updated.state !== 'failed') {
+    delete updated.document
+  }
+  return saveJob(updated)
+}
+
+/**
+ * Listen to every job state change
+ * @returns Unsubscribe function
+ */
+export function subscribeToJobs(listener: JobListener): () => void {
+  queue.listeners.add(listener)
+  return () => {
+    queue.listeners.delete(listener)
+  }
+}
+
+/**
+ * Load a job, or null if it does not exist
+ */
+export async function getJob(id: string): Promise<IngestJob | null> {
+  return readJsonFile<IngestJob>(path.join(jobDir(id), JOB_FILE))
+}
+
+/**
+ * Every job that is still around (running, waiting, failed or recently
+ * done), oldest first
+ */
+export async function listJobs(): Promise<IngestJob[]> {
+  await recoverJobs()
+  const ids = (await readDirOrEmpty(JOBS_DIR)).filter(isValidJobId)
+  const jobs = await Promise.all(ids.map(id => getJob(id).catch(() => null)))
+  return jobs
+    .filter((job): job is IngestJob => job !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Store the bytes of an upload and queue it for ingestion
+ */
+export async function enqueueIngestJob(
+  name: string,
+  mimeType: string,
+  data: Uint8Array,
+  options: Pick<IngestOptions, 'collectionPath'> = {}
+): Promise<IngestJob> {
+  return queueJob(name, mimeType, data.byteLength, file => fs.writeFile(file, data), options)
+}
+
+/**
+ * Queue a file that is already on disk (a finished chunked upload) for
+ * ingestion. The file is moved into the job, so large uploads are never
+ * held in memory before their job runs. Both live under DOCUMENT_STORAGE_DIR,
+ * so the move is a rename.
+ */
+export async function enqueueIngestFile(
+  name: string,
+  mimeType: string,
+  file: string,
+  options: Pick<IngestOptions, 'collectionPath'> = {}
+): Promise<IngestJob> {
+  const { size } = await fs.stat(file)
+  return queueJob(name, mimeType, size, target => fs.rename(file, target), options)
+}
+
+async function queueJob(
+  name: string,
+  mimeType: string,
+  size: number,
+  storeData: (file: string) => Promise<void>,
+  options: Pick<IngestOptions, 'collectionPath'>
+): Promise<IngestJob> {
+  await recoverJobs()
+  await purgeExpiredJobs()
+
+  const now = new Date().toISOString()
+  const job: IngestJob = {
+    id: randomUUID(),
+    name,
+    mimeType,
+    size,
+    state: 'queued',
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+  if (options.collectionPath) {
+    job.collectionPath = options.collectionPath
+  }
+
+  await fs.mkdir(jobDir(job.id), { recursive: true })
+  await storeData(path.join(jobDir(job.id), DATA_FILE))
+  await saveJob(job)
+
+  queue.pending.push(job.id)
+  void runQueue()
+  return job
+}
+
+/**
+ * Queue a failed job again
+ * @returns The re-queued job, or null if there is no failed job with this id
+ */
+export async function retryJob(id: string): Promise<IngestJob | null> {
+  const job = await getJob(id)
+  if (!job || job.state !== 'failed') return null
+
+  const queued = await updateJob(job, { state: 'queued' })
+
+  queue.pending.push(id)
+  void runQueue()
+  return queued
+}
+
+/**
+ * Forget a job that is not running (cancels it if it is still queued)
+ * @returns false if there is no such job, or it is being processed right now
+ */
+export async function deleteJob(id: string): Promise<boolean> {
+  const job = await getJob(id)
+  if (!job || !['queued', 'done', 'failed'].includes(job.state)) return false
+
+  queue.pending = queue.pending.filter(pendingId => pendingId !== id)
+  await fs.rm(jobDir(id), { recursive: true, force: true })
+  return true
+}
+
+async function runJob(id: string): Promise<void> {
+  let job = await getJob(id)
+  if (!job || job.state !== 'queued') return
+
+  job = await updateJob(job, { attempts: job.attempts + 1 })
+
+  try {
+    // One copy of the file in memory: a Buffer is already a Uint8Array
+    const data: Uint8Array = await fs.readFile(path.join(jobDir(id), DATA_FILE))
+
+    // Stage callbacks fire synchronously; chain the writes so they land in order
+    let saving = Promise.resolve()
+    const result = await ingestDocument(job.name, job.mimeType, data, {
+      collectionPath: job.collectionPath,
+      onStage: (state, page) => {
+        saving = saving.then(async () => {
+          job = await updateJob(job as IngestJob, { state, ocrPage: page?.pageNumber, pageCount: page?.pageCount })
+        })
+      },
+    })
+    await saving
+
+    if (result.success) {
+      await updateJob(job, { state: 'done', document: result.document })
+      await fs.rm(path.join(jobDir(id), DATA_FILE), { force: true })
+    } else {
+      await updateJob(job, {
+        state: 'failed',
+        error: result.error,
+        details: result.details,
+        errorStatus: result.status,
+        ...(result.code && { errorCode: result.code }),
+        retryable: !PERMANENT_FAILURES.includes(result.status),
+        ...(result.document && { document: result.document }),
+      })
+    }
+  } catch (error) {
+    console.error(`Ingestion job ${id} failed:`, error)
+    await updateJob(job, {
+      state: 'failed',
+      error: `Could not process ${job.name}`,
+      details: error instanceof Error ? error.message : String(error),
+      errorStatus: 500,
+      retryable: true,
+    })
+  }
+}
+
+async function runQueue(): Promise<void> {
+  if (queue.running) return
+  queue.running = true
+  try {
+    while (queue.pending.length) {
+      const id = queue.pending.shift() as string
+      try {
+        await runJob(id)
+      } catch (error) {
+        console.error(`Ingestion job ${id} crashed:`, error)
+      }
+    }
+  } finally {
+    queue.running = false
+  }
+}
+
+/**
+ * Queue again jobs a server restart interrupted (once per process)
+ */
+function recoverJobs(): Promise<void> {
+  queue.recovery ??= (async () => {
+    const ids = (await readDirOrEmpty(JOBS_DIR)).filter(isValidJobId)
+    const jobs = (await Promise.all(ids.map(id => getJob(id).catch(() => null))))
+      .filter((job): job is IngestJob => job !== null && job.state !== 'done' && job.state !== 'failed')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+    for (const job of jobs) {
+      if (job.state !== 'queued') await updateJob(job, { state: 'queued' })
+      if (!queue.pending.includes(job.id)) queue.pending.push(job.id)
+    }
+    if (jobs.length) void runQueue()
+  })()
+  return queue.recovery
+}
+
+/**
+ * Remove finished and failed jobs nobody has touched for JOB_EXPIRY_MS
+ */
+export async function purgeExpiredJobs(): Promise<void> {
+  const cutoff = Date.now() - JOB_EXPIRY_MS
+  for (const id of await readDirOrEmpty(JOBS_DIR)) {
+    if (!isValidJobId(id)) continue
+    const job = await getJob(id).catch(() => null)
+    // A directory without a readable job is a half-created one
+    const touched = job
+      ? Date.parse(job.updatedAt)
+      : (await fs.stat(jobDir(id)).catch(() => null))?.mtimeMs ?? 0
+    if ((!job || job.state === 'done' || job.state === 'failed') && touched < cutoff) {
+      await fs.rm(jobDir(id), { recursive: true, force: true })
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Ingestion Jobs API Client
+ *
+ * Browser-side wrappers for the `/api/jobs` routes: the background jobs that
+ * turn uploaded files into documents (see `@/utils/ingestQueue`), and their
+ * live server-sent events.
+ *
+ * @example
+ * ```tsx
+ * import { fetchJobs, subscribeToJobs } from '@/utils/jobsApi'
+ *
+ * useEffect(() => subscribeToJobs(job => updateCard(job), async () => {
+ *   const result = await fetchJobs()
+ *   if (result.success) setJobs(result.jobs)
+ * }), [])
+ * ```
+ */
+
+import type { IngestJob } from '@/types'
+import { apiRequest, type ApiResult } from '@/utils/apiRequest'
+
+const API_ROUTE = '/api/jobs'
+
+/**
+ * Jobs that are waiting, running, failed or recently done, oldest first
+ */
+export function fetchJobs() {
+  return apiRequest<ApiResult & { jobs?: IngestJob[] }>(API_ROUTE)
+}
+
+/**
+ * Queue a failed job again
+ */
+export function retryJob(id: string) {
+  return apiRequest<ApiResult & { job?: IngestJob }>(`${API_ROUTE}/${encodeURIComponent(id)}/retry`, {
+    method: 'POST',
+  })
+}
+
+/**
+ * Dismiss a finished or failed job, or cancel a queued one
+ */
+export function dismissJob(id: string) {
+  return apiRequest<ApiResult>(`${API_ROUTE}/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+/**
+ * Follow job state changes live. Changes made while disconnected are not
+ * replayed, so `onConnect` runs on every (re)connect to reload the current state.
+ * @returns Function that closes the stream
+ */
+export function subscribeToJobs(onJob: (job: IngestJob) => void, onConnect?: () => void): () => void {
+  const source = new EventSource(`${API_ROUTE}/events`)
+  source.addEventListener('open', () => onConnect?.())
+  source.addEventListener('job', event => {
+    try {
+      onJob(JSON.parse((event as MessageEvent<string>).data))
+    } catch (error) {
+      console.error('Bad job event:', error)
+    }
+  })
+  return () => source.close()
+}
@@ -0,0 +1,62 @@
+/**
+ * OCR Utility (server-side only)
+ *
+ * CPU OCR via tesseract.js (WebAssembly build of Tesseract) for scanned,
+ * image-only pages. English model data ships with `@tesseract.js-data/eng`,
+ * so nothing is downloaded at runtime.
+ *
+ * One worker is created lazily and reused for every page; tesseract.js
+ * queues concurrent `recognize` calls on it.
+ *
+ * @example
+ * ```ts
+ * import { recognizeImage } from '@/utils/ocr'
+ *
+ * const { text, confidence } = await recognizeImage(pngBuffer)
+ * ```
+ */
+
+import type { Worker } from 'tesseract.js'
+
+export interface OcrResult {
+  text: string
+  /** Tesseract's mean word confidence, 0-1 */
+  confidence: number
+}
+
+/** Pages whose OCR confidence is below this are flagged in the UI */
+export const LOW_OCR_CONFIDENCE = 0.6
+
+let workerPromise: Promise<Worker> | null = null
+
+async function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const { createWorker, OEM } = await import('tesseract.js')
+      const eng = (await import('@tesseract.js-data/eng')).default
+      return createWorker('eng', OEM.LSTM_ONLY, {
+        langPath: eng.langPath,
+        gzip: eng.gzip,
+        cacheMethod: 'none',
+      })
+    })()
+
+    // Let the next call retry instead of caching a failed start-up forever
+    workerPromise.catch(() => {
+      workerPromise = null
+    })
+  }
+  return workerPromise
+}
+
+/**
+ * Run OCR on a PNG/JPEG image
+ */
+export async function recognizeImage(image: Buffer): Promise<OcrResult> {
+  const worker = await getWorker()
+  const { data } = await worker.recognize(image)
+  return {
+    text: data.text.trim(),
+    confidence: data.confidence / 100,
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Passage Matching
+ *
+ * Finds where a cited excerpt sits in a page's text. Both sides are
+ * normalized first (case, whitespace, ligatures, typographic quotes and
+ * dashes), because excerpts come from chunked, whitespace-collapsed page text
+ * while the viewer matches against raw pdfjs text items. `passageCoverage`
+ * scores near-misses, for checking excerpts that may have been paraphrased.
+ * Safe to import from client components.
+ *
+ * @example
+ * ```ts
+ * import { locatePassage, segmentsInRange } from '@/utils/passageMatch'
+ *
+ * const items = ['Either party may ', 'terminate with 30', ' days notice.']
+ * const range = locatePassage(items, 'may terminate with 30 days') // { start: 13, end: 39 }
+ * segmentsInRange(items, range) // [0, 1, 2]
+ * ```
+ */
+
+export interface TextRange {
+  /** Offsets into the concatenated segments, end exclusive */
+  start: number
+  end: number
+}
+
+/** When the whole excerpt is not found, look for its first / last this many characters */
+const ANCHOR_LENGTH = 60
+
+/** Word n-gram size used by `passageCoverage` */
+const SHINGLE_SIZE = 3
+
+const CHARACTER_FOLDS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '­': '',
+}
+
+interface NormalizedText {
+  text: string
+  /** Original offset of every normalized character */
+  origins: number[]
+}
+
+function normalizeWithOrigins(original: string): NormalizedText {
+  let text = ''
+  const origins: number[] = []
+  for (let i = 0; i < original.length; i++) {
+    const char = original[i]
+    if (/\s/.test(char)) {
+      if (text && !text.endsWith(' ')) {
+        text += ' '
+        origins.push(i)
+      }
+      continue
+    }
+    const folded = (CHARACTER_FOLDS[char] ?? char).normalize('NFKC').toLowerCase()
+    for (const piece of folded) {
+      text += piece
+      origins.push(i)
+    }
+  }
+  return { text, origins }
+}
+
+/**
+ * The form both sides are compared in
+ */
+export function normalizeForMatch(text: string): string {
+  return normalizeWithOrigins(text).text.trim()
+}
+
+/**
+ * Where an excerpt sits in a text made of consecutive segments (pdfjs text
+ * items, or a single page string). Falls back to the excerpt's first and last
+ * words when it only partly matches (e.g. a chunk cut mid-word).
+ * @returns The range in the concatenated segments, or null if not found
+ */
+export function locatePassage(segments: string[], excerpt: string): TextRange | null {
+  const original = segments.join('')
+  const haystack = normalizeWithOrigins(original)
+  const needle = normalizeForMatch(excerpt)
+  if (!needle) return null
+
+  const toRange = (from: number, to: number): TextRange => ({
+    start: haystack.origins[from],
+    end: (haystack.origins[Math.min(to, haystack.origins.length) - 1] ?? original.length - 1) + 1,
+  })
+
+  const exact = haystack.text.indexOf(needle)
+  if (exact >= 0) return toRange(exact, exact + needle.length)
+
+  const head = needle.slice(0, ANCHOR_LENGTH).trim()
+  const tail = needle.slice(-ANCHOR_LENGTH).trim()
+  const headAt = haystack.text.indexOf(head)
+  const tailAt = haystack.text.indexOf(tail, Math.max(headAt, 0))
+
+  if (headAt >= 0 && tailAt >= 0) return toRange(headAt, tailAt + tail.length)
+  if (headAt >= 0) return toRange(headAt, headAt + needle.length)
+  if (tailAt >= 0) return toRange(Math.max(0, tailAt + tail.length - needle.length), tailAt + tail.length)
+  return null
+}
+
+/**
+ * Indexes of the segments that overlap a range from `locatePassage`
+ */
+export function segmentsInRange(segments: string[], range: TextRange): number[] {
+  const indexes: number[] = []
+  let offset = 0
+  segments.forEach((segment, i) => {
+    const end = offset + segment.length
+    if (segment.trim() && offset < range.end && end > range.start) indexes.push(i)
+    offset = end
+  })
+  return indexes
+}
+
+function words(text: string): string[] {
+  return normalizeForMatch(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+function wordShingles(tokens: string[], size: number): Set<string> {
+  const shingles = new Set<string>()
+  for (let i = 0; i + size <= tokens.length; i++) {
+    shingles.add(tokens.slice(i, i + size).join(' '))
+  }
+  return shingles
+}
+
+/**
+ * How much of an excerpt appears in a text, 0-1: the share of the excerpt's
+ * word trigrams found in it. Tolerates cut-off words, dropped sentences and
+ * small edits; a paraphrase scores low.
+ */
+export function passageCoverage(text: string, excerpt: string): number {
+  const excerptWords = words(excerpt)
+  const size = Math.min(SHINGLE_SIZE, excerptWords.length)
+  if (!size) return 0
+
+  const haystack = wordShingles(words(text), size)
+  const needles = wordShingles(excerptWords, size)
+  let found = 0
+  needles.forEach(shingle => {
+    if (haystack.has(shingle)) found++
+  })
+  return found / needles.size
+}
@@ -0,0 +1,211 @@
+/**
+ * PDF Utility (server-side only)
+ *
+ * Thin wrapper around pdfjs-dist for reading uploaded PDFs inside API routes.
+ * Pages with little or no text layer (scanned, image-only pages) are rendered
+ * and run through OCR instead - see `@/utils/ocr`. Metadata is read from
+ * both the info dictionary and XMP, preferring XMP where both are set.
+ *
+ * @example
+ * ```ts
+ * import { extractPdfPages } from '@/utils/pdf'
+ *
+ * const pages = await extractPdfPages(buffer)
+ * console.log(pages.length, pages[0].text, pages[0].ocrConfidence)
+ *
+ * const { metadata, outline } = await extractPdfDetails(buffer)
+ * ```
+ */
+
+import path from 'path'
+import type { Canvas, SKRSContext2D } from '@napi-rs/canvas'
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist/types/src/display/api'
+import type { DocumentMetadata, OutlineItem, PageText } from '@/types'
+import { recognizeImage } from '@/utils/ocr'
+
+/** Pages with fewer non-whitespace characters than this are OCRed */
+const MIN_TEXT_LAYER_CHARS = 20
+
+/** Render scale for OCR: 3x the 72 DPI PDF space is about 216 DPI */
+const OCR_RENDER_SCALE = 3
+
+/** Bookmarks beyond this many are dropped (some PDFs bookmark every paragraph) */
+const MAX_OUTLINE_ITEMS = 500
+
+// Built-in fonts (Helvetica, Times, ...) are needed to render text pages
+const STANDARD_FONT_DATA_URL = path.join(process.cwd(), 'node_modules', 'pdfjs-dist', 'standard_fonts') + path.sep
+
+// pdfjs types its Node canvas factory (backed by @napi-rs/canvas) as `Object`
+interface CanvasAndContext {
+  canvas: Canvas
+  context: SKRSContext2D
+}
+
+interface CanvasFactory {
+  create(width: number, height: number): CanvasAndContext
+  destroy(canvasAndContext: CanvasAndContext): void
+}
+
+/**
+ * Open a PDF from raw bytes. Callers must `destroy()` the returned proxy.
+ */
+export async function openPdf(data: Uint8Array): Promise<PDFDocumentProxy> {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+
+  // pdfjs transfers (and detaches) the buffer it is given, so hand it a copy
+  return getDocument({
+    data: new Uint8Array(data),
+    useSystemFonts: true,
+    isEvalSupported: false,
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+  }).promise
+}
+
+/**
+ * Render a page to a PNG image
+ */
+export async function renderPdfPage(pdf: PDFDocumentProxy, page: PDFPageProxy, scale: number): Promise<Buffer> {
+  const viewport = page.getViewport({ scale })
+  const canvasFactory = pdf.canvasFactory as CanvasFactory
+  const { canvas, context } = canvasFactory.create(viewport.width, viewport.height)
+  try {
+    await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise
+    return canvas.toBuffer('image/png')
+  } finally {
+    canvasFactory.destroy({ canvas, context })
+  }
+}
+
+async function readTextLayer(page: PDFPageProxy): Promise<string> {
+  const content = await page.getTextContent()
+  return content.items
+    .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim()
+}
+
+/**
+ * Extract the text of every page, in page order (1-based page numbers).
+ * Falls back to OCR for pages without a usable text layer, calling `onOcrPage`
+ * before each one.
+ * @throws if the bytes are not a readable PDF
+ */
+export async function extractPdfPages(
+  data: Uint8Array,
+  onOcrPage?: (pageNumber: number, pageCount: number) => void
+): Promise<PageText[]> {
+  const pdf = await openPdf(data)
+  try {
+    const pages: PageText[] = []
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const text = await readTextLayer(page)
+
+      if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+        pages.push({ pageNumber, text })
+      } else {
+        try {
+          onOcrPage?.(pageNumber, pdf.numPages)
+          const image = await renderPdfPage(pdf, page, OCR_RENDER_SCALE)
+          const result = await recognizeImage(image)
+          pages.push({ pageNumber, text: result.text || text, ocrConfidence: result.confidence })
+        } catch (error) {
+          // Keep whatever text layer there was; flag the page as unreadable
+          console.error(`OCR failed on page ${pageNumber}:`, error)
+          pages.push({ pageNumber, text, ocrConfidence: 0 })
+        }
+      }
+
+      page.cleanup()
+    }
+    return pages
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+type OutlineNode = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>[number]
+
+/** XMP values are strings, or arrays for Seq/Bag properties */
+function metadataText(value: unknown): string | undefined {
+  const text = Array.isArray(value) ? value.filter(Boolean).join(', ') : typeof value === 'string' ? value : ''
+  return text.trim() || undefined
+}
+
+function splitKeywords(value: unknown): string[] | undefined {
+  const keywords = (Array.isArray(value) ? value : [value])
+    .flatMap(item => (typeof item === 'string' ? item.split(/[,;]/) : []))
+    .map(keyword => keyword.trim())
+    .filter(Boolean)
+  return keywords.length ? Array.from(new Set(keywords)) : undefined
+}
+
+async function resolvePageNumber(pdf: PDFDocumentProxy, dest: OutlineNode['dest']): Promise<number | undefined> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest
+    const target = explicit?.[0]
+    if (typeof target === 'number') return target + 1
+    if (target && typeof target === 'object') return (await pdf.getPageIndex(target)) + 1
+  } catch {
+    // Broken destination - keep the bookmark without a page
+  }
+  return undefined
+}
+
+/**
+ * Read the descriptive metadata and the bookmark outline of a PDF
+ * @throws if the bytes are not a readable PDF
+ */
+export async function extractPdfDetails(
+  data: Uint8Array
+): Promise<{ metadata?: DocumentMetadata; outline?: OutlineItem[] }> {
+  const { PDFDateString } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  const pdf = await openPdf(data)
+  try {
+    const { info, metadata: xmp } = await pdf.getMetadata()
+    const infoDict = (info ?? {}) as Record<string, unknown>
+    const xmpValue = (name: string) => (xmp?.has(name) ? xmp.get(name) : undefined)
+
+    const toIso = (value: unknown, parse: (text: string) => Date | null) => {
+      const date = typeof value === 'string' ? parse(value) : null
+      return date && !isNaN(date.getTime()) ? date.toISOString() : undefined
+    }
+    const xmpDate = (name: string) => toIso(xmpValue(name), text => new Date(text))
+    const infoDate = (name: string) => toIso(infoDict[name], text => PDFDateString.toDateObject(text))
+
+    const fields: DocumentMetadata = {
+      title: metadataText(xmpValue('dc:title')) ?? metadataText(infoDict.Title),
+      author: metadataText(xmpValue('dc:creator')) ?? metadataText(infoDict.Author),
+      subject: metadataText(xmpValue('dc:description')) ?? metadataText(infoDict.Subject),
+      keywords: splitKeywords(xmpValue('pdf:keywords')) ?? splitKeywords(xmpValue('dc:subject')) ?? splitKeywords(infoDict.Keywords),
+      createdAt: xmpDate('xmp:createdate') ?? infoDate('CreationDate'),
+      modifiedAt: xmpDate('xmp:modifydate') ?? infoDate('ModDate'),
+    }
+    const metadata = Object.fromEntries(
+      Object.entries(fields).filter(([, value]) => value !== undefined)
+    ) as DocumentMetadata
+
+    let remaining = MAX_OUTLINE_ITEMS
+    const convert = async (nodes: OutlineNode[]): Promise<OutlineItem[]> => {
+      const items: OutlineItem[] = []
+      for (const node of nodes) {
+        if (remaining-- <= 0) break
+        const item: OutlineItem = { title: node.title.trim(), children: await convert(node.items) }
+        const pageNumber = await resolvePageNumber(pdf, node.dest)
+        if (pageNumber) item.pageNumber = pageNumber
+        items.push(item)
+      }
+      return items
+    }
+    const outline = await convert((await pdf.getOutline()) ?? [])
+
+    return {
+      metadata: Object.keys(metadata).length ? metadata : undefined,
+      outline: outline.length ? outline : undefined,
+    }
+  } finally {
+    await pdf.destroy()
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Query Scope
+ *
+ * Limits a question to chosen documents and/or collections. A document is in
+ * scope if it is listed itself or sits in (a sub-collection of) a listed
+ * collection. Safe to import from client components.
+ *
+ * @example
+ * ```ts
+ * import { documentsInScope } from '@/utils/queryScope'
+ *
+ * const scope = { collections: ['Contracts/2025'], documentIds: ['abc'] }
+ * documentsInScope(documents, scope) // documents the agent may use
+ * ```
+ */
+
+import type { Document, QueryScope } from '@/types'
+import { isInCollection, normalizeCollectionPath } from '@/utils/collections'
+
+/**
+ * True for a missing scope or one with nothing selected (= everything)
+ */
+export function isScopeEmpty(scope: QueryScope | null | undefined): boolean {
+  return !scope?.documentIds?.length && !scope?.collections?.length
+}
+
+/**
+ * Whether the scope lists the document or one of its collections
+ * (strict: an empty scope contains nothing)
+ */
+export function isInScope(document: Document, scope: QueryScope): boolean {
+  return (
+    !!scope.documentIds?.includes(document.id) ||
+    !!scope.collections?.some(collection => isInCollection(document.collectionPath, collection))
+  )
+}
+
+/**
+ * The documents a question in this scope may use; all of them for an empty scope
+ */
+export function documentsInScope(documents: Document[], scope: QueryScope | null | undefined): Document[] {
+  return isScopeEmpty(scope) ? documents : documents.filter(document => isInScope(document, scope!))
+}
+
+/**
+ * Validate a scope received over the wire
+ * @returns The cleaned scope, or undefined when none was given. Entries that
+ *   are invalid are dropped, but the scope itself is kept (possibly empty) so
+ *   a bad request never widens to the whole library.
+ */
+export function parseQueryScope(value: unknown): QueryScope | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const { documentIds, collections } = value as Record<string, unknown>
+
+  const strings = (list: unknown) => (Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [])
+  const requestedIds = strings(documentIds)
+  const requestedCollections = strings(collections)
+  if (!requestedIds.length && !requestedCollections.length) return undefined
+
+  return {
+    documentIds: requestedIds.filter(id => /^[\w-]+$/.test(id)),
+    // '' would mean the whole library - drop it rather than widen the scope
+    collections: requestedCollections.map(normalizeCollectionPath).filter(Boolean),
+  }
+}
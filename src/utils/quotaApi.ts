@@ -0,0 +1,26 @@
+/**
+ * Quota API Client
+ *
+ * Browser-side wrapper for `/api/quota`: the workspace limits the server
+ * enforces on uploads, and current usage.
+ *
+ * @example
+ * ```tsx
+ * import { fetchQuota } from '@/utils/quotaApi'
+ *
+ * const result = await fetchQuota()
+ * if (result.success) setLimits(result.limits)
+ * ```
+ */
+
+import type { WorkspaceLimits, WorkspaceUsage } from '@/types'
+import { apiRequest, type ApiResult } from '@/utils/apiRequest'
+
+const API_ROUTE = '/api/quota'
+
+/**
+ * Workspace limits (null = unlimited) and usage
+ */
+export function fetchQuota() {
+  return apiRequest<ApiResult & { limits?: WorkspaceLimits; usage?: WorkspaceUsage }>(API_ROUTE)
+}
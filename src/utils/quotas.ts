@@ -0,0 +1,125 @@
+/**
+ * Workspace Quotas (server-side only)
+ *
+ * Limits on what the workspace (everything under DOCUMENT_STORAGE_DIR) may
+ * hold, configured in MB / counts by environment variables (0 = no limit):
+ *
+ * | Variable               | Default | Limit                              |
+ * | ---------------------- | ------- | ---------------------------------- |
+ * | QUOTA_MAX_FILE_SIZE_MB | 0       | size of one uploaded file          |
+ * | QUOTA_MAX_PAGES        | 2000    | pages of one document              |
+ * | QUOTA_MAX_STORAGE_MB   | 5120    | all library documents together     |
+ * | QUOTA_MAX_DOCUMENTS    | 1000    | documents in the library           |
+ *
+ * Single files are not limited by default: resumable uploads exist for
+ * manuals of several hundred MB, and the storage limit still applies.
+ *
+ * Storage counts the current version of every library document, the same
+ * figure the sidebar shows; older versions and the trash are not counted.
+ * Per-file limits fail with 413, full workspaces with 507, each with a
+ * `QuotaCode` so clients can tell them apart.
+ *
+ * @example
+ * ```ts
+ * import { checkQuota } from '@/utils/quotas'
+ *
+ * const violation = await checkQuota(file.name, { size: file.size })
+ * if (violation) {
+ *   const { status, ...body } = violation
+ *   return NextResponse.json({ success: false, ...body }, { status })
+ * }
+ * ```
+ */
+
+import type { Document, QuotaCode, WorkspaceLimits, WorkspaceUsage } from '@/types'
+import { formatBytes } from '@/utils'
+import { listDocuments } from '@/utils/documentStore'
+
+const MB = 1024 * 1024
+
+function limitFromEnv(name: string, fallback: number, unit = 1): number | null {
+  const value = Math.max(0, Number(process.env[name] ?? fallback) || 0)
+  return value > 0 ? Math.floor(value * unit) : null
+}
+
+export const WORKSPACE_LIMITS: WorkspaceLimits = {
+  maxFileSize: limitFromEnv('QUOTA_MAX_FILE_SIZE_MB', 0, MB),
+  maxPages: limitFromEnv('QUOTA_MAX_PAGES', 2000),
+  maxStorage: limitFromEnv('QUOTA_MAX_STORAGE_MB', 5120, MB),
+  maxDocuments: limitFromEnv('QUOTA_MAX_DOCUMENTS', 1000),
+}
+
+export interface QuotaViolation {
+  /** 413 for a file over a per-file limit, 507 for a full workspace */
+  status: 413 | 507
+  code: QuotaCode
+  error: string
+  limit: number
+}
+
+export interface QuotaRequest {
+  /** Bytes */
+  size: number
+  /** Known once the file has been read */
+  pages?: number
+  /** The stored document this one becomes a new version of (or replaces) */
+  replaces?: Document | null
+}
+
+export async function getWorkspaceUsage(): Promise<WorkspaceUsage> {
+  const documents = await listDocuments()
+  return {
+    documents: documents.length,
+    storage: documents.reduce((sum, document) => sum + document.size, 0),
+  }
+}
+
+/**
+ * Whether a file can be added to the workspace
+ * @returns The first limit it would break, or null if it fits
+ */
+export async function checkQuota(name: string, request: QuotaRequest): Promise<QuotaViolation | null> {
+  const { maxFileSize, maxPages, maxStorage, maxDocuments } = WORKSPACE_LIMITS
+
+  if (maxFileSize !== null && request.size > maxFileSize) {
+    return {
+      status: 413,
+      code: 'file_too_large',
+      error: `${name} is ${formatBytes(request.size)}; files may be at most ${formatBytes(maxFileSize)}`,
+      limit: maxFileSize,
+    }
+  }
+
+  if (maxPages !== null && request.pages !== undefined && request.pages > maxPages) {
+    return {
+      status: 413,
+      code: 'too_many_pages',
+      error: `${name} has ${request.pages} pages; documents may have at most ${maxPages}`,
+      limit: maxPages,
+    }
+  }
+
+  if (maxDocuments === null && maxStorage === null) return null
+  const usage = await getWorkspaceUsage()
+
+  if (maxDocuments !== null && !request.replaces && usage.documents >= maxDocuments) {
+    return {
+      status: 507,
+      code: 'document_limit_reached',
+      error: `The library is full: it already holds the maximum of ${maxDocuments} documents`,
+      limit: maxDocuments,
+    }
+  }
+
+  const storage = usage.storage - (request.replaces?.size ?? 0) + request.size
+  if (maxStorage !== null && storage > maxStorage) {
+    return {
+      status: 507,
+      code: 'storage_limit_reached',
+      error: `Not enough storage for ${name}: ${formatBytes(usage.storage)} of ${formatBytes(maxStorage)} used`,
+      limit: maxStorage,
+    }
+  }
+
+  return null
+}
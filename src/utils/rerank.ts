@@ -0,0 +1,113 @@
+/**
+ * Rank Fusion and Local Re-ranking
+ *
+ * Combines several ranked lists with reciprocal rank fusion (RRF), then
+ * re-scores the fused candidates with cheap passage-level features:
+ * query term coverage, term proximity and exact phrase matches.
+ *
+ * @example
+ * ```ts
+ * import { reciprocalRankFusion, rerankPassages } from '@/utils/rerank'
+ *
+ * const fused = reciprocalRankFusion([bm25Ids, vectorIds])
+ * const ranked = rerankPassages(query, fused.map(hit => ({ ...hit, text: textOf(hit.id) })))
+ * ```
+ */
+
+import { tokenize } from '@/utils/bm25'
+
+export interface RankedItem {
+  id: string
+  score: number
+}
+
+export interface RerankCandidate extends RankedItem {
+  text: string
+}
+
+/** Standard RRF damping constant from Cormack et al. */
+const RRF_K = 60
+
+/** Prefix length at which two tokens count as the same word form */
+const STEM_PREFIX = 5
+
+/**
+ * Fuse ranked id lists: score(id) = sum over lists of 1 / (k + rank)
+ * @returns Fused items, best first
+ */
+export function reciprocalRankFusion(rankings: string[][], k = RRF_K): RankedItem[] {
+  const scores = new Map<string, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1))
+    })
+  }
+
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score)
+}
+
+function sameWord(a: string, b: string): boolean {
+  if (a === b) return true
+  return a.length >= STEM_PREFIX && b.length >= STEM_PREFIX && a.slice(0, STEM_PREFIX) === b.slice(0, STEM_PREFIX)
+}
+
+/**
+ * Smallest token window that contains every matched query term, as a
+ * 0-1 score (1 = the terms are adjacent)
+ */
+function proximityScore(queryTerms: string[], passageTokens: string[]): number {
+  const positions = queryTerms
+    .map(term => passageTokens.flatMap((token, i) => (sameWord(term, token) ? [i] : [])))
+    .filter(list => list.length > 0)
+
+  if (positions.length < 2) return positions.length ? 1 : 0
+
+  // Sweep all occurrences in order, tracking the latest position of each term
+  const events = positions
+    .flatMap((list, term) => list.map(position => ({ term, position })))
+    .sort((a, b) => a.position - b.position)
+  const latest = new Array<number>(positions.length).fill(-1)
+  let best = Infinity
+
+  for (const { term, position } of events) {
+    latest[term] = position
+    if (latest.every(value => value >= 0)) {
+      best = Math.min(best, position - Math.min(...latest) + 1)
+    }
+  }
+
+  return positions.length / best
+}
+
+/**
+ * Re-score candidates by their incoming score plus local passage features
+ * @returns Candidates with updated scores (0-1), best first
+ */
+export function rerankPassages(query: string, candidates: RerankCandidate[]): RerankCandidate[] {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  const phrase = query.trim().toLowerCase()
+  // Min-max normalize: fused RRF scores are close together by design
+  const scores = candidates.map(candidate => candidate.score)
+  const minScore = Math.min(...scores)
+  const range = Math.max(...scores) - minScore || 1
+
+  return candidates
+    .map(candidate => {
+      const passageTokens = tokenize(candidate.text)
+      const matched = queryTerms.filter(term => passageTokens.some(token => sameWord(term, token)))
+      const coverage = queryTerms.length ? matched.length / queryTerms.length : 0
+      const proximity = proximityScore(matched, passageTokens)
+      const phraseMatch = queryTerms.length > 1 && candidate.text.toLowerCase().includes(phrase) ? 1 : 0
+
+      const score =
+        0.5 * ((candidate.score - minScore) / range) +
+        0.3 * coverage +
+        0.15 * proximity +
+        0.05 * phraseMatch
+
+      return { ...candidate, score }
+    })
+    .sort((a, b) => b.score - a.score)
+}
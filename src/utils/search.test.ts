@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import type { Document } from '@/types'
+import { withTempStorage } from '@/test/tempStorage'
+
+const modules = withTempStorage(async () => ({
+  store: await import('@/utils/documentStore'),
+  search: await import('@/utils/search'),
+}))
+
+async function addDocument(id: string, collectionPath: string, text: string) {
+  const document: Document = {
+    id,
+    name: `${id}.txt`,
+    format: 'text',
+    size: text.length,
+    pages: 1,
+    uploadDate: new Date().toISOString(),
+    collectionPath,
+  }
+  await modules.store.saveDocument(document, new TextEncoder().encode(text))
+  await modules.store.saveDocumentText(id, [{ pageNumber: 1, text }], [
+    { id: `${id}-0`, documentId: id, pageNumber: 1, start: 0, end: text.length, text },
+  ])
+}
+
+beforeAll(async () => {
+  await addDocument('contract', 'Contracts', 'Either party may terminate with 30 days notice.')
+  await addDocument('policy', 'Policies', 'Employees may terminate their contract with 14 days notice.')
+})
+
+describe('searchDocuments', () => {
+  it('only returns passages from documents in scope', async () => {
+    const citations = await modules.search.searchDocuments('terminate notice', { scope: { collections: ['Contracts'] } })
+    expect(citations.map(citation => citation.document_id)).toEqual(['contract'])
+  })
+
+  it('applies a collection move to the next scoped search', async () => {
+    await modules.search.searchDocuments('terminate notice')
+    await modules.store.updateDocument('contract', { collectionPath: 'Policies' })
+
+    const contracts = await modules.search.searchDocuments('terminate notice', { scope: { collections: ['Contracts'] } })
+    expect(contracts).toEqual([])
+
+    const policies = await modules.search.searchDocuments('terminate notice', { scope: { collections: ['Policies'] } })
+    expect(policies.map(citation => citation.document_id).sort()).toEqual(['contract', 'policy'])
+  })
+})
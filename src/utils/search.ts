@@ -0,0 +1,151 @@
+/**
+ * Local Document Search (server-side only)
+ *
+ * Searches every stored chunk and returns passages shaped like the agent's
+ * `Citation`s. Two modes:
+ * - `lexical`: BM25 only
+ * - `hybrid`: BM25 + hashed TF-IDF vectors, fused with reciprocal rank
+ *   fusion and re-ranked locally (see `@/utils/rerank`)
+ *
+ * The indexes are cached in memory and rebuilt whenever a document is added,
+ * removed or re-chunked. Document records are re-read on every search, so
+ * moving or renaming a document applies immediately without a rebuild. A
+ * query scope restricts which documents' chunks can be returned (see
+ * `@/utils/queryScope`).
+ *
+ * @example
+ * ```ts
+ * import { searchDocuments } from '@/utils/search'
+ *
+ * const citations = await searchDocuments('termination notice', { limit: 5, mode: 'hybrid' })
+ * ```
+ */
+
+import type { Citation, Document, DocumentChunk, QueryScope } from '@/types'
+import { buildBm25Index, searchBm25, type Bm25Index } from '@/utils/bm25'
+import { getChunksFingerprint, getDocumentChunks, listDocuments } from '@/utils/documentStore'
+import { isInScope } from '@/utils/queryScope'
+import { reciprocalRankFusion, rerankPassages } from '@/utils/rerank'
+import { buildVectorIndex, searchVectors, type VectorIndex } from '@/utils/vectors'
+
+export type SearchMode = 'lexical' | 'hybrid'
+
+export interface SearchOptions {
+  /** Maximum number of passages to return (default 10) */
+  limit?: number
+  /** Retrieval strategy (default 'lexical') */
+  mode?: SearchMode
+  /** Only search these documents / collections; an empty scope finds nothing */
+  scope?: QueryScope
+}
+
+interface SearchCorpus {
+  fingerprint: string
+  documents: Map<string, Document>
+  chunks: Map<string, DocumentChunk>
+  index: Bm25Index
+  vectors: VectorIndex
+}
+
+/** How many candidates each retriever contributes before fusion */
+const HYBRID_CANDIDATES = 50
+
+/** Vector hits below this cosine similarity are mostly shared trigrams - noise */
+const MIN_SIMILARITY = 0.1
+
+let cachedCorpus: SearchCorpus | null = null
+
+async function loadCorpus(): Promise<SearchCorpus> {
+  const documents = await listDocuments()
+  const fingerprint = await getChunksFingerprint(documents.map(document => document.id))
+
+  if (cachedCorpus && cachedCorpus.fingerprint === fingerprint) {
+    // Collection moves only rewrite document.json, not the chunks
+    cachedCorpus.documents = new Map(documents.map(document => [document.id, document]))
+    return cachedCorpus
+  }
+
+  const chunks = (await Promise.all(documents.map(document => getDocumentChunks(document.id)))).flat()
+
+  cachedCorpus = {
+    fingerprint,
+    documents: new Map(documents.map(document => [document.id, document])),
+    chunks: new Map(chunks.map(chunk => [chunk.id, chunk])),
+    index: buildBm25Index(chunks),
+    vectors: buildVectorIndex(chunks),
+  }
+  return cachedCorpus
+}
+
+function hybridSearch(corpus: SearchCorpus, query: string, limit: number, accept?: (id: string) => boolean) {
+  const lexical = searchBm25(corpus.index, query, HYBRID_CANDIDATES, accept)
+  const semantic = searchVectors(corpus.vectors, query, HYBRID_CANDIDATES, accept)
+    .filter(hit => hit.score >= MIN_SIMILARITY)
+
+  const fused = reciprocalRankFusion([lexical.map(hit => hit.id), semantic.map(hit => hit.id)])
+
+  return rerankPassages(
+    query,
+    fused.map(hit => ({ ...hit, text: (corpus.chunks.get(hit.id) as DocumentChunk).text }))
+  ).slice(0, limit)
+}
+
+/**
+ * Find the passages that best match a query
+ * @returns Citations ranked best first; `relevance_score` is relative to the top hit (0-1)
+ */
+export async function searchDocuments(query: string, options: SearchOptions = {}): Promise<Citation[]> {
+  const corpus = await loadCorpus()
+  const limit = options.limit ?? 10
+  const { scope } = options
+
+  let accept: ((id: string) => boolean) | undefined
+  if (scope) {
+    const allowed = new Set(
+      Array.from(corpus.documents.values())
+        .filter(document => isInScope(document, scope))
+        .map(document => document.id)
+    )
+    accept = id => allowed.has((corpus.chunks.get(id) as DocumentChunk).documentId)
+  }
+
+  const hits = options.mode === 'hybrid'
+    ? hybridSearch(corpus, query, limit, accept)
+    : searchBm25(corpus.index, query, limit, accept)
+  const topScore = hits[0]?.score ?? 1
+
+  return hits.map(hit => {
+    const chunk = corpus.chunks.get(hit.id) as DocumentChunk
+    return {
+      document_id: chunk.documentId,
+      document_name: corpus.documents.get(chunk.documentId)?.name,
+      page_number: chunk.pageNumber,
+      excerpt: chunk.text,
+      relevance_score: hit.score / topScore,
+    }
+  })
+}
+
+/**
+ * Build the message sent to the agent: the user's question plus the
+ * retrieved passages, numbered so the agent can cite document and page.
+ * A scoped question with nothing found tells the agent so, instead of
+ * letting it answer from outside the chosen documents.
+ */
+export function buildContextMessage(message: string, passages: Citation[], scoped = false): string {
+  if (!passages.length) {
+    return scoped
+      ? `The user limited this question to selected documents, and none of them contain passages relevant to it. Say so rather than answering from other sources.\n\nQUESTION:\n${message}`
+      : message
+  }
+
+  const context = passages
+    .map((passage, i) => `[${i + 1}] ${passage.document_name} (page ${passage.page_number}):\n${passage.excerpt}`)
+    .join('\n\n')
+
+  const instruction = scoped
+    ? 'Answer the question using only the document passages below - the user limited it to these documents.'
+    : 'Answer the question using the document passages below.'
+
+  return `${instruction} Cite the document name and page number of every passage you rely on.\n\nPASSAGES:\n${context}\n\nQUESTION:\n${message}`
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { readServerSentEvents, type ServerSentEvent } from '@/utils/sse'
+
+function streamOf(pieces: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)))
+      controller.close()
+    },
+  })
+}
+
+async function readAll(pieces: string[]): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = []
+  for await (const event of readServerSentEvents(streamOf(pieces))) events.push(event)
+  return events
+}
+
+describe('readServerSentEvents', () => {
+  it('reads named and unnamed events', async () => {
+    expect(await readAll(['data: one\n\nevent: done\ndata: {"ok":true}\n\n'])).toEqual([
+      { event: 'message', data: 'one' },
+      { event: 'done', data: '{"ok":true}' },
+    ])
+  })
+
+  it('joins events split anywhere across chunks', async () => {
+    expect(await readAll(['ev', 'ent: delta\nda', 'ta: hel', 'lo\n', '\n'])).toEqual([{ event: 'delta', data: 'hello' }])
+  })
+
+  it('handles CRLF, comments and multi-line data', async () => {
+    expect(await readAll([': keep-alive\r\n\r\ndata: first\r\ndata:second\r\n\r\n'])).toEqual([
+      { event: 'message', data: 'first\nsecond' },
+    ])
+  })
+
+  it('keeps a leading space beyond the first and decodes split UTF-8', async () => {
+    const bytes = new TextEncoder().encode('data:  café\n\n')
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 11))
+        controller.enqueue(bytes.slice(11))
+        controller.close()
+      },
+    })
+    const events: ServerSentEvent[] = []
+    for await (const event of readServerSentEvents(stream)) events.push(event)
+    expect(events).toEqual([{ event: 'message', data: ' café' }])
+  })
+
+  it('flushes an event that is not followed by a blank line', async () => {
+    expect(await readAll(['data: [DONE]'])).toEqual([{ event: 'message', data: '[DONE]' }])
+  })
+
+  it('cancels the body when the loop ends early', async () => {
+    let cancelled = false
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: one\n\ndata: two\n\n'))
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    for await (const event of readServerSentEvents(stream)) {
+      expect(event.data).toBe('one')
+      break
+    }
+    expect(cancelled).toBe(true)
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Server-Sent Events Reader
+ *
+ * Parses a `text/event-stream` response body into events as they arrive -
+ * for streams `EventSource` cannot open (POST requests, or upstream APIs
+ * read on the server). Safe to import from client components.
+ *
+ * @example
+ * ```ts
+ * import { readServerSentEvents } from '@/utils/sse'
+ *
+ * const response = await fetch('/api/agent', { method: 'POST', body })
+ * for await (const { event, data } of readServerSentEvents(response.body!)) {
+ *   if (event === 'delta') append(JSON.parse(data).text)
+ * }
+ * ```
+ */
+
+export interface ServerSentEvent {
+  /** `message` unless the event names itself */
+  event: string
+  /** The event's `data:` lines, joined with newlines */
+  data: string
+}
+
+/**
+ * Every event in the body, in order. Leaving the loop early cancels the body.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event = 'message'
+  let data: string[] = []
+  let finished = false
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read()
+      finished = done
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      const lines = buffer.split('\n')
+      buffer = done ? '' : lines.pop() ?? ''
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine
+        if (line === '') {
+          // A blank line ends the event
+          if (data.length) yield { event, data: data.join('\n') }
+          event = 'message'
+          data = []
+          continue
+        }
+        if (line.startsWith(':')) continue
+
+        const colon = line.indexOf(':')
+        const field = colon < 0 ? line : line.slice(0, colon)
+        const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '')
+        if (field === 'event') event = value
+        else if (field === 'data') data.push(value)
+      }
+    }
+
+    // A stream may end without the final blank line
+    if (data.length) yield { event, data: data.join('\n') }
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {})
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Storage Utility (server-side only)
+ *
+ * Shared location and JSON file helpers for everything the app persists
+ * (documents, conversations). All persistence goes through the stores built
+ * on these helpers - `@/utils/documentStore` and `@/utils/conversationStore` -
+ * so swapping the filesystem for a database only touches those modules.
+ *
+ * DOCUMENT_STORAGE_DIR defaults to `.data` in the project root.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+export const STORAGE_DIR = process.env.DOCUMENT_STORAGE_DIR || path.join(process.cwd(), '.data')
+
+/**
+ * Read and parse a JSON file, or null if it does not exist
+ */
+export async function readJsonFile<T>(file: string): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(file, 'utf-8')
+    return JSON.parse(raw) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Write a JSON file atomically (temp file + rename), so a crash mid-write
+ * never leaves a truncated record behind
+ */
+export async function writeJsonFile(file: string, value: unknown, pretty = false): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const temp = `${file}.${randomUUID()}.tmp`
+  await fs.writeFile(temp, pretty ? JSON.stringify(value, null, 2) : JSON.stringify(value))
+  await fs.rename(temp, file)
+}
+
+/**
+ * List a directory, or an empty list if it does not exist
+ */
+export async function readDirOrEmpty(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+// Kept on globalThis: route bundles each get their own copy of this module
+const globalForLocks = globalThis as typeof globalThis & { storageLocks?: Map<string, Promise<void>> }
+const locks = (globalForLocks.storageLocks ??= new Map())
+
+/**
+ * Run a read-modify-write of one record after every earlier task with the
+ * same key has settled (e.g. `uploads/<id>`), so concurrent requests cannot
+ * overwrite each other. Only serializes within this server process.
+ */
+export function withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const result = (locks.get(key) ?? Promise.resolve()).then(task)
+  const settled = result.then(
+    () => undefined,
+    () => undefined
+  )
+  locks.set(key, settled)
+  settled.then(() => {
+    if (locks.get(key) === settled) locks.delete(key)
+  })
+  return result
+}
@@ -0,0 +1,51 @@
+/**
+ * Trash API Client
+ *
+ * Browser-side wrappers for the `/api/trash` routes. Documents get there
+ * through `deleteDocument` in `@/utils/documentsApi`.
+ *
+ * @example
+ * ```tsx
+ * import { restoreFromTrash } from '@/utils/trashApi'
+ *
+ * const result = await restoreFromTrash(doc.id)
+ * if (result.success) setDocuments(prev => [result.document, ...prev])
+ * ```
+ */
+
+import type { Document, TrashedDocument } from '@/types'
+import { apiRequest, type ApiResult } from '@/utils/apiRequest'
+
+const API_ROUTE = '/api/trash'
+
+/**
+ * Deleted documents, most recently deleted first, and how many days they are kept
+ */
+export function fetchTrash() {
+  return apiRequest<ApiResult & { documents?: TrashedDocument[]; retentionDays?: number }>(API_ROUTE)
+}
+
+/**
+ * Move a deleted document back into the library
+ * @returns The restored document; on a 409, the copy already in the library
+ */
+export function restoreFromTrash(id: string) {
+  return apiRequest<ApiResult & { document?: Document }>(
+    `${API_ROUTE}/${encodeURIComponent(id)}/restore`,
+    { method: 'POST' }
+  )
+}
+
+/**
+ * Delete a trashed document for good
+ */
+export function deleteFromTrash(id: string) {
+  return apiRequest<ApiResult>(`${API_ROUTE}/${encodeURIComponent(id)}`, { method: 'DELETE' })
+}
+
+/**
+ * Delete everything in the trash for good
+ */
+export function emptyTrash() {
+  return apiRequest<ApiResult>(API_ROUTE, { method: 'DELETE' })
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import type { Document } from '@/types'
+import { withTempStorage } from '@/test/tempStorage'
+
+const modules = withTempStorage(async () => ({
+  store: await import('@/utils/documentStore'),
+  trash: await import('@/utils/trashStore'),
+}))
+
+function addDocument(id: string, name: string, collectionPath?: string) {
+  const document: Document = {
+    id,
+    name,
+    format: 'text',
+    size: 4,
+    pages: 1,
+    uploadDate: new Date().toISOString(),
+    ...(collectionPath && { collectionPath }),
+  }
+  return modules.store.saveDocument(document, new TextEncoder().encode(id))
+}
+
+describe('restoreFromTrash', () => {
+  it('restores a document as it was', async () => {
+    await addDocument('a', 'notes.txt', 'Reports')
+    await modules.trash.trashDocument('a')
+
+    expect(await modules.trash.restoreFromTrash('a')).toMatchObject({ id: 'a', name: 'notes.txt', collectionPath: 'Reports' })
+  })
+
+  it('renames the restored document when its name was taken meanwhile', async () => {
+    await addDocument('b', 'manual.txt', 'Manuals')
+    await modules.trash.trashDocument('b')
+    await addDocument('c', 'manual.txt', 'Manuals')
+
+    expect((await modules.trash.restoreFromTrash('b'))?.name).toBe('manual (restored).txt')
+    expect((await modules.store.getDocument('c'))?.name).toBe('manual.txt')
+  })
+
+  it('numbers the new name when that is taken too', async () => {
+    await addDocument('d', 'guide.txt')
+    await modules.trash.trashDocument('d')
+    await addDocument('e', 'guide.txt')
+    await addDocument('f', 'guide (restored).txt')
+
+    expect((await modules.trash.restoreFromTrash('d'))?.name).toBe('guide (restored 2).txt')
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Trash Store (server-side only)
+ *
+ * Deleting a document moves its whole directory (record, page text, chunks,
+ * source file, versions) out of the library into the trash, so it drops out
+ * of listings and search at once but can still be restored:
+ *
+ * ```
+ * <DOCUMENT_STORAGE_DIR>/trash/<id>/
+ * ├── trash.json      # when it was deleted and when it expires
+ * └── ...             # the document directory, see `@/utils/documentStore`
+ * ```
+ *
+ * Trashed documents are deleted for good after TRASH_RETENTION_DAYS
+ * (env, default 30). With a retention of 0 deleting is immediate.
+ *
+ * @example
+ * ```ts
+ * import { restoreFromTrash, trashDocument } from '@/utils/trashStore'
+ *
+ * const trashed = await trashDocument(id)    // gone from the library
+ * const document = await restoreFromTrash(id) // back again
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { Document, TrashedDocument } from '@/types'
+import { documentDir, getDocument, isValidDocumentId, listDocuments } from '@/utils/documentStore'
+import { STORAGE_DIR, readDirOrEmpty, readJsonFile, writeJsonFile } from '@/utils/storage'
+
+const TRASH_DIR = path.join(STORAGE_DIR, 'trash')
+const TRASH_FILE = 'trash.json'
+/** The document record, as laid out by `@/utils/documentStore` */
+const RECORD_FILE = 'document.json'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const TRASH_RETENTION_DAYS = Math.max(0, Number(process.env.TRASH_RETENTION_DAYS ?? 30) || 0)
+
+type TrashEntry = Pick<TrashedDocument, 'deletedAt' | 'expiresAt'>
+
+function trashDir(id: string): string {
+  if (!isValidDocumentId(id)) {
+    throw new Error(`Invalid document id: ${id}`)
+  }
+  return path.join(TRASH_DIR, id)
+}
+
+/**
+ * Move a document to the trash (or delete it outright when retention is 0)
+ * @returns The trashed document, or null if it does not exist
+ */
+export async function trashDocument(id: string): Promise<TrashedDocument | null> {
+  const document = await getDocument(id)
+  if (!document) return null
+
+  await purgeExpiredTrash()
+
+  const deletedAt = new Date()
+  const entry: TrashEntry = {
+    deletedAt: deletedAt.toISOString(),
+    expiresAt: new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS).toISOString(),
+  }
+
+  if (TRASH_RETENTION_DAYS === 0) {
+    await fs.rm(documentDir(id), { recursive: true, force: true })
+    return { ...document, ...entry }
+  }
+
+  await fs.mkdir(TRASH_DIR, { recursive: true })
+  await fs.rename(documentDir(id), trashDir(id))
+  await writeJsonFile(path.join(trashDir(id), TRASH_FILE), entry, true)
+  return { ...document, ...entry }
+}
+
+/**
+ * Load a trashed document, or null if it is not in the trash
+ */
+export async function getTrashedDocument(id: string): Promise<TrashedDocument | null> {
+  const dir = trashDir(id)
+  const [document, entry] = await Promise.all([
+    readJsonFile<Document>(path.join(dir, RECORD_FILE)),
+    readJsonFile<TrashEntry>(path.join(dir, TRASH_FILE)),
+  ])
+  return document && entry ? { ...document, ...entry } : null
+}
+
+/**
+ * Every document in the trash, most recently deleted first
+ */
+export async function listTrash(): Promise<TrashedDocument[]> {
+  await purgeExpiredTrash()
+  const ids = (await readDirOrEmpty(TRASH_DIR)).filter(isValidDocumentId)
+  const documents = await Promise.all(ids.map(id => getTrashedDocument(id)))
+  return documents
+    .filter((document): document is TrashedDocument => document !== null)
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+}
+
+/**
+ * A name no library document has: the name itself, else "report (restored).pdf",
+ * "report (restored 2).pdf", ...
+ */
+function restoredName(name: string, taken: Set<string>): string {
+  const { name: base, ext } = path.parse(name)
+  let candidate = name
+  for (let n = 1; taken.has(candidate); n++) {
+    candidate = `${base} (restored${n > 1 ? ` ${n}` : ''})${ext}`
+  }
+  return candidate
+}
+
+/**
+ * Move a document from the trash back into the library, where it reappears
+ * with its collection, tags and versions as they were. If a file with the
+ * same name has been uploaded since, the restored one is renamed: uploads
+ * find the document they are a new version of by name, so names stay unique.
+ * @returns The restored record, or null if it is not in the trash
+ */
+export async function restoreFromTrash(id: string): Promise<Document | null> {
+  const trashed = await getTrashedDocument(id)
+  if (!trashed) return null
+
+  const taken = new Set((await listDocuments()).map(document => document.name))
+  const name = restoredName(trashed.name, taken)
+  if (name !== trashed.name) {
+    const record = await readJsonFile<Document>(path.join(trashDir(id), RECORD_FILE))
+    await writeJsonFile(path.join(trashDir(id), RECORD_FILE), { ...record, name }, true)
+  }
+
+  await fs.rm(path.join(trashDir(id), TRASH_FILE), { force: true })
+  await fs.rename(trashDir(id), documentDir(id))
+  return getDocument(id)
+}
+
+/**
+ * Delete a trashed document for good
+ * @returns false if it was not in the trash
+ */
+export async function deleteFromTrash(id: string): Promise<boolean> {
+  if (!(await getTrashedDocument(id))) return false
+  await fs.rm(trashDir(id), { recursive: true, force: true })
+  return true
+}
+
+/**
+ * Delete everything in the trash for good
+ */
+export async function emptyTrash(): Promise<void> {
+  await fs.rm(TRASH_DIR, { recursive: true, force: true })
+}
+
+/**
+ * Delete trashed documents whose retention period is over
+ */
+export async function purgeExpiredTrash(): Promise<void> {
+  const now = Date.now()
+  for (const id of await readDirOrEmpty(TRASH_DIR)) {
+    if (!isValidDocumentId(id)) continue
+    const entry = await readJsonFile<TrashEntry>(path.join(trashDir(id), TRASH_FILE)).catch(() => null)
+    // Without a readable entry the move into the trash was interrupted
+    const expires = entry
+      ? Date.parse(entry.expiresAt)
+      : ((await fs.stat(trashDir(id)).catch(() => null))?.mtimeMs ?? 0) + TRASH_RETENTION_DAYS * DAY_MS
+    if (expires <= now) {
+      await fs.rm(trashDir(id), { recursive: true, force: true })
+    }
+  }
+}
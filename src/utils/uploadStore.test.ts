@@ -0,0 +1,29 @@
+import { promises as fs } from 'fs'
+import { describe, expect, it } from 'vitest'
+import { withTempStorage } from '@/test/tempStorage'
+
+const modules = withTempStorage(async () => ({ uploads: await import('@/utils/uploadStore') }))
+
+describe('appendUploadChunk', () => {
+  it('appends chunks in order and rejects the wrong offset', async () => {
+    const { id } = await modules.uploads.createUpload('manual.pdf', 'application/pdf', 6)
+
+    expect((await modules.uploads.appendUploadChunk(id, 0, new Uint8Array([1, 2, 3])))?.accepted).toBe(true)
+    expect((await modules.uploads.appendUploadChunk(id, 0, new Uint8Array([1, 2, 3])))?.accepted).toBe(false)
+    expect((await modules.uploads.appendUploadChunk(id, 3, new Uint8Array([4, 5, 6])))?.upload.received).toBe(6)
+    expect(Array.from(await fs.readFile(modules.uploads.uploadDataFile(id)))).toEqual([1, 2, 3, 4, 5, 6])
+  })
+
+  it('writes a chunk sent twice at the same offset only once', async () => {
+    const { id } = await modules.uploads.createUpload('manual.pdf', 'application/pdf', 8)
+    const chunk = new Uint8Array([1, 2, 3, 4])
+
+    const results = await Promise.all([
+      modules.uploads.appendUploadChunk(id, 0, chunk),
+      modules.uploads.appendUploadChunk(id, 0, chunk),
+    ])
+
+    expect(results.map(result => result?.accepted).sort()).toEqual([false, true])
+    expect((await modules.uploads.getUpload(id))?.received).toBe(4)
+  })
+})
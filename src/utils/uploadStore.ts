@@ -0,0 +1,161 @@
+/**
+ * Resumable Upload Store (server-side only)
+ *
+ * Holds in-progress chunked uploads until they are complete:
+ *
+ * ```
+ * <DOCUMENT_STORAGE_DIR>/uploads/<id>/
+ * ├── upload.json   # UploadSession
+ * └── data.part     # bytes received so far, appended in order
+ * ```
+ *
+ * The bytes received so far are the size of `data.part`, so a session
+ * survives server restarts and the client can always ask where to resume.
+ * Sessions untouched for UPLOAD_EXPIRY_MS are purged.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { STORAGE_DIR, readDirOrEmpty, readJsonFile, withLock, writeJsonFile } from '@/utils/storage'
+
+export interface UploadSession {
+  id: string
+  name: string
+  mimeType: string
+  size: number
+  /** Passed on to ingestion, see `@/utils/collections` */
+  collectionPath?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface UploadStatus extends UploadSession {
+  received: number
+}
+
+const UPLOADS_DIR = path.join(STORAGE_DIR, 'uploads')
+const SESSION_FILE = 'upload.json'
+const DATA_FILE = 'data.part'
+
+/** Suggested chunk size handed to clients; they may send smaller chunks */
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024
+
+/** Abandoned uploads are removed after a day */
+const UPLOAD_EXPIRY_MS = 24 * 60 * 60 * 1000
+
+export function isValidUploadId(id: string): boolean {
+  return /^[\w-]+$/.test(id)
+}
+
+function uploadDir(id: string): string {
+  if (!isValidUploadId(id)) {
+    throw new Error(`Invalid upload id: ${id}`)
+  }
+  return path.join(UPLOADS_DIR, id)
+}
+
+async function receivedBytes(id: string): Promise<number> {
+  try {
+    return (await fs.stat(path.join(uploadDir(id), DATA_FILE))).size
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0
+    throw error
+  }
+}
+
+/**
+ * Start a new upload session
+ */
+export async function createUpload(
+  name: string,
+  mimeType: string,
+  size: number,
+  collectionPath?: string
+): Promise<UploadStatus> {
+  await purgeExpiredUploads()
+
+  const now = new Date().toISOString()
+  const session: UploadSession = { id: randomUUID(), name, mimeType, size, createdAt: now, updatedAt: now }
+  if (collectionPath) {
+    session.collectionPath = collectionPath
+  }
+  const dir = uploadDir(session.id)
+  await writeJsonFile(path.join(dir, SESSION_FILE), session)
+  await fs.writeFile(path.join(dir, DATA_FILE), new Uint8Array())
+  return { ...session, received: 0 }
+}
+
+/**
+ * Load an upload session with how many bytes have arrived, or null
+ */
+export async function getUpload(id: string): Promise<UploadStatus | null> {
+  const session = await readJsonFile<UploadSession>(path.join(uploadDir(id), SESSION_FILE))
+  if (!session) return null
+  return { ...session, received: await receivedBytes(id) }
+}
+
+/**
+ * Append the next chunk. `offset` must equal the bytes received so far -
+ * chunks are strictly sequential, which is what makes resuming safe. Appends
+ * to one upload run one at a time, so a retried chunk racing the original
+ * is rejected instead of written twice.
+ * @returns The updated status, or the current one with `accepted: false`
+ *   if the offset did not match or the chunk would overflow the declared size
+ */
+export async function appendUploadChunk(
+  id: string,
+  offset: number,
+  chunk: Uint8Array
+): Promise<{ accepted: boolean; upload: UploadStatus } | null> {
+  return withLock(`uploads/${id}`, async () => {
+    const upload = await getUpload(id)
+    if (!upload) return null
+
+    if (offset !== upload.received || offset + chunk.byteLength > upload.size) {
+      return { accepted: false, upload }
+    }
+
+    const dir = uploadDir(id)
+    await fs.appendFile(path.join(dir, DATA_FILE), chunk)
+
+    const { received, ...session } = upload
+    session.updatedAt = new Date().toISOString()
+    await writeJsonFile(path.join(dir, SESSION_FILE), session)
+
+    return { accepted: true, upload: { ...session, received: received + chunk.byteLength } }
+  })
+}
+
+/**
+ * The file holding the bytes received so far. Finished uploads are moved
+ * from here into the ingestion queue rather than read into memory.
+ */
+export function uploadDataFile(id: string): string {
+  return path.join(uploadDir(id), DATA_FILE)
+}
+
+/**
+ * Remove an upload session and its bytes (cancel, or after ingestion)
+ */
+export async function deleteUpload(id: string): Promise<void> {
+  await withLock(`uploads/${id}`, () => fs.rm(uploadDir(id), { recursive: true, force: true }))
+}
+
+/**
+ * Remove sessions nobody has touched for UPLOAD_EXPIRY_MS
+ */
+export async function purgeExpiredUploads(): Promise<void> {
+  const cutoff = Date.now() - UPLOAD_EXPIRY_MS
+  for (const id of await readDirOrEmpty(UPLOADS_DIR)) {
+    if (!isValidUploadId(id)) continue
+    const session = await readJsonFile<UploadSession>(path.join(uploadDir(id), SESSION_FILE)).catch(() => null)
+    // A directory without a readable session is a half-created or corrupt upload
+    const touched = session
+      ? Date.parse(session.updatedAt)
+      : (await fs.stat(uploadDir(id)).catch(() => null))?.mtimeMs ?? 0
+    if (touched < cutoff) {
+      await deleteUpload(id)
+    }
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Hashed TF-IDF Vectors
+ *
+ * CPU-only "semantic" layer for retrieval. Text is turned into word unigrams,
+ * word bigrams and character trigrams, hashed into a fixed number of buckets
+ * (the hashing trick) and weighted by TF-IDF. Character trigrams let related
+ * word forms match ("terminate" / "termination") where BM25 cannot.
+ *
+ * @example
+ * ```ts
+ * import { buildVectorIndex, searchVectors } from '@/utils/vectors'
+ *
+ * const index = buildVectorIndex([{ id: 'a', text: 'termination notice' }])
+ * const hits = searchVectors(index, 'terminate', 5)
+ * ```
+ */
+
+import { tokenize } from '@/utils/bm25'
+
+export interface VectorDocument {
+  id: string
+  text: string
+}
+
+export interface VectorHit {
+  id: string
+  score: number
+}
+
+/** Sparse vector: bucket -> weight, L2-normalized */
+export type SparseVector = Map<number, number>
+
+export interface VectorIndex {
+  ids: string[]
+  vectors: SparseVector[]
+  /** bucket -> inverse document frequency */
+  idf: Map<number, number>
+  dimensions: number
+}
+
+const DEFAULT_DIMENSIONS = 1 << 18
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Count hashed features of a text: word unigrams, bigrams and char trigrams
+ */
+function hashFeatures(text: string, dimensions: number): Map<number, number> {
+  const tokens = tokenize(text)
+  const features = new Map<number, number>()
+  const add = (feature: string) => {
+    const bucket = fnv1a(feature) % dimensions
+    features.set(bucket, (features.get(bucket) ?? 0) + 1)
+  }
+
+  tokens.forEach((token, i) => {
+    add(`w:${token}`)
+    if (i > 0) add(`b:${tokens[i - 1]} ${token}`)
+
+    const padded = `^${token}$`
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`)
+    }
+  })
+
+  return features
+}
+
+function weigh(features: Map<number, number>, idf: Map<number, number>): SparseVector {
+  const vector: SparseVector = new Map()
+  let norm = 0
+
+  features.forEach((count, bucket) => {
+    const weight = (1 + Math.log(count)) * (idf.get(bucket) ?? 0)
+    if (weight > 0) {
+      vector.set(bucket, weight)
+      norm += weight * weight
+    }
+  })
+
+  norm = Math.sqrt(norm)
+  if (norm > 0) {
+    vector.forEach((weight, bucket) => vector.set(bucket, weight / norm))
+  }
+  return vector
+}
+
+/**
+ * Build a TF-IDF vector index over a set of documents
+ */
+export function buildVectorIndex(documents: VectorDocument[], dimensions = DEFAULT_DIMENSIONS): VectorIndex {
+  const featureSets = documents.map(document => hashFeatures(document.text, dimensions))
+
+  const documentFrequency = new Map<number, number>()
+  for (const features of featureSets) {
+    features.forEach((_, bucket) => {
+      documentFrequency.set(bucket, (documentFrequency.get(bucket) ?? 0) + 1)
+    })
+  }
+
+  const idf = new Map<number, number>()
+  documentFrequency.forEach((frequency, bucket) => {
+    idf.set(bucket, Math.log((1 + documents.length) / (1 + frequency)) + 1)
+  })
+
+  return {
+    ids: documents.map(document => document.id),
+    vectors: featureSets.map(features => weigh(features, idf)),
+    idf,
+    dimensions,
+  }
+}
+
+/**
+ * Cosine similarity of two L2-normalized sparse vectors
+ */
+export function cosineSimilarity(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a]
+  let dot = 0
+  small.forEach((weight, bucket) => {
+    dot += weight * (large.get(bucket) ?? 0)
+  })
+  return dot
+}
+
+/**
+ * Rank indexed documents by cosine similarity to the query, optionally
+ * only those `accept` lets through
+ * @returns Hits with a positive similarity, best first
+ */
+export function searchVectors(
+  index: VectorIndex,
+  query: string,
+  limit = 10,
+  accept?: (id: string) => boolean
+): VectorHit[] {
+  const queryVector = weigh(hashFeatures(query, index.dimensions), index.idf)
+  if (!queryVector.size) return []
+
+  return index.vectors
+    .map((vector, i) => ({ id: index.ids[i], vector }))
+    .filter(({ id }) => !accept || accept(id))
+    .map(({ id, vector }) => ({ id, score: cosineSimilarity(queryVector, vector) }))
+    .filter(hit => hit.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}